@@ -1,69 +1,245 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react';
-import { Network, Share2, Users, Activity, Upload, BrainCircuit, RotateCcw, FileText, Download, FileJson, FileSpreadsheet, Image as ImageIcon, ChevronDown } from 'lucide-react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { Network, Share2, Users, Activity, Upload, BrainCircuit, RotateCcw, FileText, Download, FileJson, FileSpreadsheet, Image as ImageIcon, ChevronDown, Dices, X, FileCode, FolderOpen, Boxes } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
 import ReactMarkdown from 'react-markdown';
+import { bin } from 'd3';
 
 import NetworkGraph, { NetworkGraphHandle } from './components/NetworkGraph';
 import MetricCard from './components/MetricCard';
-import { generateSampleData, calculateMetrics, buildGraphFromLinks } from './services/graphUtils';
+import ImportDialog from './components/ImportDialog';
+import PathFinder from './components/PathFinder';
+import BridgePanel from './components/BridgePanel';
+import EgoPanel, { EgoExportFormat } from './components/EgoPanel';
+import DiffusionPanel from './components/DiffusionPanel';
+import InfluencePanel from './components/InfluencePanel';
+import LinkPredictionPanel from './components/LinkPredictionPanel';
+import TimelinePanel from './components/TimelinePanel';
+import LayoutPanel from './components/LayoutPanel';
+import CommunityPanel from './components/CommunityPanel';
+import { generateSampleData, buildGraphFromLinks, RawLink, EMPTY_METRICS } from './services/graphUtils';
+import { runAnalysis, AnalysisJob } from './services/analysisClient';
+import { parseGraphFile, GRAPH_FILE_EXTENSIONS } from './services/graphFormats';
 import { analyzeNetworkWithGemini } from './services/geminiService';
-import { exportEdgesCSV, exportNodesCSV, exportGraphJSON } from './services/exportUtils';
-import { GraphData, NetworkMetrics, Node, AnalysisState } from './types';
-
-const INITIAL_METRICS: NetworkMetrics = {
-  nodeCount: 0,
-  edgeCount: 0,
-  density: 0,
-  avgDegree: 0,
-  diameter: '-',
-  modularity: 0,
+import { exportEdgesCSV, exportNodesCSV, exportProject, exportGraphML, exportGEXF } from './services/exportUtils';
+import { parseProject } from './services/projectFile';
+import { ShortestPathResult } from './services/paths';
+import { BridgeRecommendation } from './services/bridges';
+import { extractEgoNetwork, computeEgoMetrics, DEFAULT_EGO_OPTIONS } from './services/ego';
+import { DiffusionState } from './services/diffusion';
+import { DEFAULT_LAYOUT_OPTIONS } from './services/layout';
+import { buildCommunityGraph } from './services/communityGraph';
+import { computeCommunityStats } from './services/communityStats';
+import { DEFAULT_GRAPH_MODE } from './services/graphIndex';
+import { DEFAULT_COMMUNITY_OPTIONS } from './services/community';
+import { DEFAULT_SEED, randomSeed } from './services/random';
+import { DEFAULT_DAMPING, CENTRALITY_METRIC_LABELS, formatCentrality } from './services/centrality';
+import { GraphData, NetworkMetrics, Node, AnalysisState, AnalysisOptions, AnalysisProgress, AnalysisStage, CommunityAlgorithm, CentralityMetric, EgoOptions, LayoutOptions } from './types';
+
+
+const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  seed: DEFAULT_SEED,
+  mode: DEFAULT_GRAPH_MODE,
+  community: DEFAULT_COMMUNITY_OPTIONS,
+};
+
+const COMMUNITY_ALGORITHM_LABELS: Record<CommunityAlgorithm, string> = {
+  [CommunityAlgorithm.LABEL_PROPAGATION]: 'Label Propagation',
+  [CommunityAlgorithm.LOUVAIN]: 'Louvain',
+  [CommunityAlgorithm.LEIDEN]: 'Leiden',
+};
+
+const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  [AnalysisStage.DEGREE]: 'Degree',
+  [AnalysisStage.PAGERANK]: 'PageRank',
+  [AnalysisStage.COMMUNITIES]: 'Communities',
+  [AnalysisStage.BETWEENNESS]: 'Betweenness',
+  [AnalysisStage.CENTRALITY]: 'Centrality',
+  [AnalysisStage.CLUSTERING]: 'Clustering',
+  [AnalysisStage.PATHS]: 'Path Lengths',
 };
 
 function App() {
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
-  const [metrics, setMetrics] = useState<NetworkMetrics>(INITIAL_METRICS);
+  const [metrics, setMetrics] = useState<NetworkMetrics>(EMPTY_METRICS);
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [analysisReport, setAnalysisReport] = useState<string>("");
   const [analysisState, setAnalysisState] = useState<AnalysisState>(AnalysisState.IDLE);
   const [activeTab, setActiveTab] = useState<'dashboard' | 'code'>('dashboard');
   const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(DEFAULT_ANALYSIS_OPTIONS);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; text: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [rankingMetric, setRankingMetric] = useState<CentralityMetric>(CentralityMetric.PAGERANK);
+  const [sizeMetric, setSizeMetric] = useState<CentralityMetric>(CentralityMetric.PAGERANK);
+  const [shortestPaths, setShortestPaths] = useState<ShortestPathResult | null>(null);
+  const [bridges, setBridges] = useState<BridgeRecommendation | null>(null);
+  const [showBridges, setShowBridges] = useState(true);
+  const [egoOptions, setEgoOptions] = useState<EgoOptions>(DEFAULT_EGO_OPTIONS);
+  const [diffusionFrame, setDiffusionFrame] = useState<Map<string, DiffusionState> | null>(null);
+  const [timeCutoff, setTimeCutoff] = useState<number | null>(null);
+  const [layoutOptions, setLayoutOptions] = useState<LayoutOptions>(DEFAULT_LAYOUT_OPTIONS);
+  const [layoutFrozen, setLayoutFrozen] = useState(false);
+  const [communityView, setCommunityView] = useState(false);
+  const [expandedCommunity, setExpandedCommunity] = useState<number | null>(null);
+  const [highlightedCommunity, setHighlightedCommunity] = useState<number | null>(null);
+  
+  const graphMode = analysisOptions.mode ?? DEFAULT_GRAPH_MODE;
   
   const graphRef = useRef<NetworkGraphHandle>(null);
+  const analysisJobRef = useRef<AnalysisJob | null>(null);
+
+  // Metrics are computed in a Web Worker; a newer run always supersedes an older one.
+  // An opened project passes its saved report and selection to put back afterwards.
+  const processGraph = useCallback((
+    data: GraphData,
+    options: AnalysisOptions,
+    restore?: { report: string; selectedNodeId: string | null }
+  ) => {
+    analysisJobRef.current?.cancel();
+    const job = runAnalysis(data, options, setAnalysisProgress);
+    analysisJobRef.current = job;
+    setAnalysisProgress({ stage: AnalysisStage.DEGREE, fraction: 0 });
+    setAnalysisError(null);
 
-  const processGraph = useCallback((data: GraphData) => {
-    const { updatedNodes, metrics: newMetrics } = calculateMetrics(data);
-    setGraphData({ nodes: updatedNodes, links: data.links });
-    setMetrics(newMetrics);
-    setAnalysisReport("");
-    setAnalysisState(AnalysisState.IDLE);
-    setSelectedNode(null);
+    job.promise
+      .then(result => {
+        if (!result || analysisJobRef.current !== job) return;
+        setGraphData({ nodes: result.updatedNodes, links: result.links });
+        setMetrics(result.metrics);
+        const report = restore?.report ?? "";
+        setAnalysisReport(report);
+        setAnalysisState(report ? AnalysisState.ANALYZED : AnalysisState.IDLE);
+        setSelectedNode(restore?.selectedNodeId
+          ? result.updatedNodes.find(n => n.id === restore.selectedNodeId) ?? null
+          : null);
+        setShortestPaths(null);
+        setBridges(null);
+        // Group ids are renumbered by every analysis run
+        setExpandedCommunity(null);
+        setHighlightedCommunity(null);
+      })
+      .catch(error => {
+        console.error("Analysis Error:", error);
+        if (analysisJobRef.current !== job) return;
+        setAnalysisError(error instanceof Error ? error.message : 'The metrics could not be computed');
+      })
+      .finally(() => {
+        if (analysisJobRef.current !== job) return;
+        analysisJobRef.current = null;
+        setAnalysisProgress(null);
+      });
   }, []);
 
+  const personalization = analysisOptions.pagerank?.personalization ?? [];
+  const [personalizationDraft, setPersonalizationDraft] = useState("");
+
+  const addPersonalizationNode = (id: string) => {
+    const trimmed = id.trim();
+    if (!trimmed || personalization.includes(trimmed)) return;
+    if (!graphData.nodes.some(n => n.id === trimmed)) return;
+    setPersonalizationDraft("");
+    updateAnalysisOptions({
+      ...analysisOptions,
+      pagerank: { ...analysisOptions.pagerank, personalization: [...personalization, trimmed] }
+    });
+  };
+
+  const cancelAnalysis = () => {
+    analysisJobRef.current?.cancel();
+    analysisJobRef.current = null;
+    setAnalysisProgress(null);
+  };
+
+  useEffect(() => () => analysisJobRef.current?.cancel(), []);
+
   const handleLoadSample = () => {
-    const data = generateSampleData(60); // 60 nodes for good demo visualization
-    processGraph(data);
+    const data = generateSampleData(60, analysisOptions.seed); // 60 nodes for good demo visualization
+    setLayoutFrozen(false);
+    processGraph(data, analysisOptions);
+  };
+
+  // Re-run the analysis on the loaded graph whenever a parameter changes
+  const updateAnalysisOptions = (next: AnalysisOptions) => {
+    setAnalysisOptions(next);
+    if (graphData.nodes.length > 0) processGraph(graphData, next);
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    event.target.value = ""; // Allow re-selecting the same file
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      // Simple CSV parser: assume header, format "source,target"
-      const lines = text.split('\n');
-      const links = lines
-        .slice(1) // Skip header
-        .filter(l => l.trim() !== '')
-        .map(line => {
-          const [source, target] = line.split(',');
-          return { source: source.trim(), target: target.trim() };
-        })
-        .filter(l => l.source && l.target);
-      
-      const rawData = buildGraphFromLinks(links);
-      processGraph(rawData);
+      setImportError(null);
+      try {
+        // GraphML, GEXF, GML and Pajek load directly; edge lists go through the mapping dialog
+        const parsed = parseGraphFile(file.name, text);
+        if (parsed) {
+          // Follow the file's own edge direction
+          const options = { ...analysisOptions, mode: { ...graphMode, directed: parsed.directed } };
+          setAnalysisOptions(options);
+          setLayoutFrozen(false);
+          processGraph(parsed.data, options);
+        } else {
+          setPendingImport({ fileName: file.name, text });
+        }
+      } catch (error) {
+        console.error("Import Error:", error);
+        setImportError(error instanceof Error ? error.message : `Could not read ${file.name}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImport = (links: RawLink[]) => {
+    setPendingImport(null);
+    const rawData = buildGraphFromLinks(links);
+    setLayoutFrozen(false);
+    processGraph(rawData, analysisOptions);
+  };
+
+  const handleOpenProject = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    event.target.value = "";
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setImportError(null);
+      try {
+        const project = parseProject(e.target?.result as string);
+        analysisJobRef.current?.cancel();
+        analysisJobRef.current = null;
+        setAnalysisProgress(null);
+        setAnalysisOptions(project.analysisOptions);
+        setLayoutOptions(project.layout);
+        setLayoutFrozen(project.layoutFrozen);
+
+        // Older files carry no metrics, so they are recomputed with the saved parameters
+        if (!project.metrics) {
+          processGraph(project.graphData, project.analysisOptions, {
+            report: project.report,
+            selectedNodeId: project.selectedNodeId,
+          });
+          return;
+        }
+        setGraphData(project.graphData);
+        setMetrics(project.metrics);
+        setSelectedNode(project.graphData.nodes.find(n => n.id === project.selectedNodeId) ?? null);
+        setShortestPaths(null);
+        setBridges(null);
+        setExpandedCommunity(null);
+        setHighlightedCommunity(null);
+        setAnalysisReport(project.report);
+        setAnalysisState(project.report ? AnalysisState.ANALYZED : AnalysisState.IDLE);
+      } catch (error) {
+        console.error("Project Error:", error);
+        setImportError(error instanceof Error ? error.message : `Could not open ${file.name}`);
+      }
     };
     reader.readAsText(file);
   };
@@ -76,7 +252,7 @@ function App() {
     setAnalysisState(AnalysisState.ANALYZED);
   };
 
-  const handleExport = (type: 'nodes' | 'edges' | 'json' | 'png') => {
+  const handleExport = (type: 'nodes' | 'edges' | 'json' | 'graphml' | 'gexf' | 'png') => {
     if (metrics.nodeCount === 0) return;
     setIsExportMenuOpen(false);
 
@@ -88,7 +264,21 @@ function App() {
             exportEdgesCSV(graphData.links);
             break;
         case 'json':
-            exportGraphJSON(graphData.nodes, graphData.links);
+            exportProject({
+                graphData,
+                metrics,
+                analysisOptions,
+                selectedNodeId: selectedNode?.id ?? null,
+                report: analysisReport,
+                layout: layoutOptions,
+                layoutFrozen
+            });
+            break;
+        case 'graphml':
+            exportGraphML(graphData.nodes, graphData.links, graphMode);
+            break;
+        case 'gexf':
+            exportGEXF(graphData.nodes, graphData.links, graphMode);
             break;
         case 'png':
             if (graphRef.current) {
@@ -98,24 +288,89 @@ function App() {
     }
   };
 
-  // Prepare chart data
-  const degreeDistribution = useMemo(() => {
+  // Prepare chart data. Weighted degrees (strengths) with fractional values are
+  // binned into ranges instead of one bar per value.
+  const strengthDistribution = graphData.nodes.some(n => !Number.isInteger(n.degree));
+  const degreeDistribution = useMemo((): { degree: number | string; count: number }[] => {
     if (!graphData.nodes.length) return [];
+    if (strengthDistribution) {
+      return bin().thresholds(20)(graphData.nodes.map(n => n.degree))
+        .map(b => ({ degree: `${b.x0}–${b.x1}`, count: b.length }));
+    }
     const counts: Record<number, number> = {};
     graphData.nodes.forEach(n => {
-      const d = Math.floor(n.degree);
-      counts[d] = (counts[d] || 0) + 1;
+      counts[n.degree] = (counts[n.degree] || 0) + 1;
     });
     return Object.entries(counts)
       .map(([k, v]) => ({ degree: parseInt(k), count: v }))
       .sort((a, b) => a.degree - b.degree);
-  }, [graphData]);
+  }, [graphData, strengthDistribution]);
+
+  const communityStats = useMemo(() => computeCommunityStats(graphData, graphMode), [graphData, graphMode]);
+  const communitySizeDistribution = useMemo(() => {
+    const counts: Record<number, number> = {};
+    communityStats.forEach(c => counts[c.size] = (counts[c.size] || 0) + 1);
+    return Object.entries(counts)
+      .map(([k, v]) => ({ size: parseInt(k), count: v }))
+      .sort((a, b) => a.size - b.size);
+  }, [communityStats]);
+
+  // The community view replaces the ego view while it is on
+  const egoNetwork = useMemo(
+    () => selectedNode && !communityView ? extractEgoNetwork(graphData, selectedNode.id, egoOptions, graphMode.directed) : null,
+    [graphData, selectedNode, egoOptions, graphMode.directed, communityView]
+  );
+  const communityGraph = useMemo(
+    () => communityView ? buildCommunityGraph(graphData, expandedCommunity) : null,
+    [graphData, communityView, expandedCommunity]
+  );
+  const egoMetrics = useMemo(
+    () => egoNetwork ? computeEgoMetrics(graphData, egoNetwork, graphMode) : null,
+    [graphData, egoNetwork, graphMode]
+  );
+
+  const handleEgoExport = (format: EgoExportFormat) => {
+    if (!egoNetwork) return;
+    const baseName = `ego_${egoNetwork.egoId.replace(/[^\w-]+/g, '_')}`;
+    switch (format) {
+      case 'graphml':
+        exportGraphML(egoNetwork.nodes, egoNetwork.links, graphMode, `${baseName}.graphml`);
+        break;
+      case 'gexf':
+        exportGEXF(egoNetwork.nodes, egoNetwork.links, graphMode, `${baseName}.gexf`);
+        break;
+      case 'edges':
+        exportEdgesCSV(egoNetwork.links, `${baseName}_edges.csv`);
+        break;
+    }
+  };
 
   const topInfluencers = useMemo(() => {
     return [...graphData.nodes]
-      .sort((a, b) => b.pagerank - a.pagerank)
+      .sort((a, b) => b[rankingMetric] - a[rankingMetric])
       .slice(0, 5);
-  }, [graphData]);
+  }, [graphData, rankingMetric]);
+
+  const rankingNote = (() => {
+    switch (rankingMetric) {
+      case CentralityMetric.PAGERANK:
+        return metrics.pagerankConverged
+          ? `Converged in ${metrics.pagerankIterations} iterations`
+          : `Stopped after ${metrics.pagerankIterations} iterations without converging`;
+      case CentralityMetric.BETWEENNESS:
+      case CentralityMetric.CLOSENESS:
+      case CentralityMetric.HARMONIC:
+        return metrics.betweennessSamples !== null ? `Estimated from ${metrics.betweennessSamples} sampled sources` : 'Exact';
+      case CentralityMetric.KATZ:
+        return `Attenuation α = ${metrics.katzAlpha.toPrecision(2)}`;
+      case CentralityMetric.HUB:
+        return 'Accounts that follow the top authorities';
+      case CentralityMetric.AUTHORITY:
+        return 'Accounts followed by the top hubs';
+      default:
+        return null;
+    }
+  })();
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col text-slate-800" onClick={() => isExportMenuOpen && setIsExportMenuOpen(false)}>
@@ -147,6 +402,17 @@ function App() {
                 </button>
             </div>
 
+            {analysisProgress && (
+                <div className="flex items-center space-x-2 px-3 py-1.5 bg-blue-50 border border-blue-100 rounded-lg text-xs text-blue-700">
+                    <div className="w-3 h-3 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                    <span className="font-medium">{ANALYSIS_STAGE_LABELS[analysisProgress.stage]}</span>
+                    <span className="font-mono">{Math.round(analysisProgress.fraction * 100)}%</span>
+                    <button onClick={cancelAnalysis} title="Cancel analysis" className="text-blue-400 hover:text-red-500">
+                        <X size={14} />
+                    </button>
+                </div>
+            )}
+
             <div className="h-6 w-px bg-slate-200 mx-2"></div>
 
             {/* Export Dropdown */}
@@ -197,7 +463,21 @@ function App() {
                             className="w-full text-left px-4 py-2 hover:bg-slate-50 text-sm flex items-center text-slate-700"
                         >
                             <FileJson size={16} className="mr-2 text-orange-600" />
-                            Graph Data (JSON)
+                            Project File (JSON)
+                        </button>
+                        <button 
+                            onClick={() => handleExport('graphml')}
+                            className="w-full text-left px-4 py-2 hover:bg-slate-50 text-sm flex items-center text-slate-700"
+                        >
+                            <FileCode size={16} className="mr-2 text-teal-600" />
+                            GraphML (NetworkX)
+                        </button>
+                        <button 
+                            onClick={() => handleExport('gexf')}
+                            className="w-full text-left px-4 py-2 hover:bg-slate-50 text-sm flex items-center text-slate-700"
+                        >
+                            <FileCode size={16} className="mr-2 text-indigo-600" />
+                            GEXF (Gephi)
                         </button>
                     </div>
                 )}
@@ -211,10 +491,16 @@ function App() {
             <span className="hidden sm:inline">Sample</span>
           </button>
           
+          <label className="flex items-center space-x-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg cursor-pointer text-sm font-medium transition">
+            <FolderOpen size={16} />
+            <span className="hidden sm:inline">Open Project</span>
+            <input type="file" accept=".json" onChange={handleOpenProject} className="hidden" />
+          </label>
+          
           <label className="flex items-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg cursor-pointer text-sm font-medium transition shadow-sm">
             <Upload size={16} />
-            <span className="hidden sm:inline">Upload CSV</span>
-            <input type="file" accept=".csv" onChange={handleFileUpload} className="hidden" />
+            <span className="hidden sm:inline">Upload Graph</span>
+            <input type="file" accept={['.csv', '.tsv', '.txt', ...GRAPH_FILE_EXTENSIONS].join(',')} onChange={handleFileUpload} className="hidden" />
           </label>
         </div>
       </header>
@@ -222,6 +508,20 @@ function App() {
       {/* Main Content */}
       <main className="flex-1 p-6 max-w-7xl mx-auto w-full grid grid-cols-12 gap-6">
         
+        {importError && (
+            <div className="col-span-12 flex items-center justify-between bg-red-50 border border-red-100 text-red-700 text-sm px-4 py-3 rounded-xl">
+                <span><span className="font-bold">Import failed:</span> {importError}</span>
+                <button onClick={() => setImportError(null)} className="text-red-400 hover:text-red-600"><X size={16} /></button>
+            </div>
+        )}
+
+        {analysisError && (
+            <div className="col-span-12 flex items-center justify-between bg-red-50 border border-red-100 text-red-700 text-sm px-4 py-3 rounded-xl">
+                <span><span className="font-bold">Analysis failed:</span> {analysisError}</span>
+                <button onClick={() => setAnalysisError(null)} className="text-red-400 hover:text-red-600"><X size={16} /></button>
+            </div>
+        )}
+
         {activeTab === 'dashboard' ? (
             <>
         {/* Left Col: Graph & Chart */}
@@ -234,8 +534,34 @@ function App() {
                 <Share2 className="w-5 h-5 mr-2 text-blue-500" />
                 Network Topology
               </h2>
-              <div className="text-xs text-slate-400 bg-slate-50 px-2 py-1 rounded border border-slate-100">
-                Force-Directed Layout (D3.js)
+              <div className="flex items-center space-x-2">
+                <label className="text-xs text-slate-500">Size by</label>
+                <select
+                    value={sizeMetric}
+                    onChange={(e) => setSizeMetric(e.target.value as CentralityMetric)}
+                    className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+                >
+                    {Object.values(CentralityMetric).map(metric => (
+                        <option key={metric} value={metric}>{CENTRALITY_METRIC_LABELS[metric]}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={() => {
+                        setCommunityView(!communityView);
+                        setExpandedCommunity(null);
+                    }}
+                    title="Collapse each community into one node"
+                    className={`flex items-center space-x-1 text-xs px-2 py-1 rounded border transition ${communityView ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                >
+                    <Boxes size={14} />
+                    <span>Communities</span>
+                </button>
+                <LayoutPanel
+                    options={layoutOptions}
+                    onChange={setLayoutOptions}
+                    frozen={layoutFrozen}
+                    onFrozenChange={setLayoutFrozen}
+                />
               </div>
             </div>
             
@@ -243,6 +569,20 @@ function App() {
                <NetworkGraph 
                 ref={graphRef}
                 data={graphData} 
+                seed={metrics.seed}
+                weighted={graphMode.weighted}
+                directed={graphMode.directed}
+                sizeMetric={sizeMetric}
+                highlightedPaths={shortestPaths?.paths}
+                suggestedLinks={showBridges ? bridges?.suggestions : undefined}
+                egoNetwork={egoNetwork}
+                diffusionFrame={diffusionFrame}
+                timeCutoff={timeCutoff}
+                layout={layoutOptions}
+                layoutFrozen={layoutFrozen}
+                communityGraph={communityGraph}
+                highlightedCommunity={highlightedCommunity}
+                onCommunityClick={setExpandedCommunity}
                 onNodeClick={setSelectedNode} 
                 selectedNode={selectedNode}
                />
@@ -250,18 +590,27 @@ function App() {
                 <div className="flex-1 flex flex-col items-center justify-center bg-slate-50 rounded-xl border border-dashed border-slate-300">
                     <Network size={48} className="text-slate-300 mb-4" />
                     <p className="text-slate-500 font-medium">No Data Loaded</p>
-                    <p className="text-slate-400 text-sm mt-1">Upload a CSV or load sample data to begin.</p>
+                    <p className="text-slate-400 text-sm mt-1">Upload a CSV, GraphML, GEXF, GML or Pajek file, or load sample data to begin.</p>
                 </div>
             )}
           </div>
 
+          {graphData.nodes.length > 0 && (
+            <TimelinePanel
+                data={graphData}
+                mode={graphMode}
+                cutoff={timeCutoff}
+                onCutoffChange={setTimeCutoff}
+            />
+          )}
+
           {/* Bottom Charts */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
              {/* Degree Distribution */}
              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                 <h3 className="text-sm font-bold text-slate-700 mb-4 flex items-center">
                     <Activity className="w-4 h-4 mr-2 text-purple-500" />
-                    Degree Distribution
+                    {strengthDistribution ? 'Strength Distribution' : 'Degree Distribution'}
                 </h3>
                 <div className="h-48 w-full">
                     <ResponsiveContainer width="100%" height="100%">
@@ -270,7 +619,7 @@ function App() {
                                 dataKey="degree" 
                                 tickLine={false} 
                                 axisLine={false}
-                                label={{ value: 'Degree (k)', position: 'insideBottom', offset: -5, style: { fontSize: 10, fill: '#64748b' } }} 
+                                label={{ value: strengthDistribution ? 'Weighted degree (s)' : 'Degree (k)', position: 'insideBottom', offset: -5, style: { fontSize: 10, fill: '#64748b' } }} 
                                 tick={{fontSize: 10}}
                             />
                             <YAxis 
@@ -288,28 +637,77 @@ function App() {
                 </div>
              </div>
 
-             {/* Influencers Table */}
+             {/* Community Size Distribution */}
              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
                 <h3 className="text-sm font-bold text-slate-700 mb-4 flex items-center">
-                    <Users className="w-4 h-4 mr-2 text-green-500" />
-                    Top Influencers (PageRank)
+                    <Boxes className="w-4 h-4 mr-2 text-indigo-500" />
+                    Community Sizes
                 </h3>
+                <div className="h-48 w-full">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={communitySizeDistribution}>
+                            <XAxis 
+                                dataKey="size" 
+                                tickLine={false} 
+                                axisLine={false}
+                                label={{ value: 'Members', position: 'insideBottom', offset: -5, style: { fontSize: 10, fill: '#64748b' } }} 
+                                tick={{fontSize: 10}}
+                            />
+                            <YAxis 
+                                tickLine={false} 
+                                axisLine={false}
+                                allowDecimals={false}
+                                tick={{fontSize: 10}}
+                            />
+                            <Tooltip 
+                                cursor={{fill: '#f1f5f9'}}
+                                formatter={(value: number) => [value, 'communities']}
+                                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                            />
+                            <Bar dataKey="count" fill="#14b8a6" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                </div>
+             </div>
+
+             {/* Influencers Table */}
+             <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-sm font-bold text-slate-700 flex items-center">
+                        <Users className="w-4 h-4 mr-2 text-green-500" />
+                        Top Influencers
+                    </h3>
+                    <select
+                        value={rankingMetric}
+                        onChange={(e) => setRankingMetric(e.target.value as CentralityMetric)}
+                        className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+                    >
+                        {Object.values(CentralityMetric).map(metric => (
+                            <option key={metric} value={metric}>
+                                {metric === CentralityMetric.PAGERANK && personalization.length > 0 ? 'Personalized PageRank' : CENTRALITY_METRIC_LABELS[metric]}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                {metrics.nodeCount > 0 && rankingNote && (
+                    <p className="text-xs text-slate-400 -mt-3 mb-3">{rankingNote}</p>
+                )}
                 <div className="overflow-x-auto">
                     <table className="w-full text-sm text-left">
                         <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
                             <tr>
                                 <th className="px-3 py-2">Rank</th>
                                 <th className="px-3 py-2">Node ID</th>
-                                <th className="px-3 py-2 text-right">PR Score</th>
+                                <th className="px-3 py-2 text-right">Score</th>
                             </tr>
                         </thead>
                         <tbody>
                             {topInfluencers.map((node, i) => (
                                 <tr key={node.id} className="border-b border-slate-50 hover:bg-slate-50/50">
                                     <td className="px-3 py-2 text-slate-400 font-mono">#{i + 1}</td>
-                                    <td className="px-3 py-2 font-medium text-slate-700">{node.id}</td>
+                                    <td className="px-3 py-2 font-medium text-slate-700">{node.label || node.id}</td>
                                     <td className="px-3 py-2 text-right text-slate-600 font-mono">
-                                        {node.pagerank.toFixed(4)}
+                                        {formatCentrality(rankingMetric, node[rankingMetric])}
                                     </td>
                                 </tr>
                             ))}
@@ -322,12 +720,55 @@ function App() {
                     </table>
                 </div>
              </div>
+
+             {/* Influence Maximization */}
+             <InfluencePanel data={graphData} mode={graphMode} seed={metrics.seed} />
           </div>
+
+          {graphData.nodes.length > 0 && (
+            <CommunityPanel
+                data={graphData}
+                stats={communityStats}
+                highlighted={highlightedCommunity}
+                onHighlight={setHighlightedCommunity}
+            />
+          )}
+
+          {graphData.nodes.length > 0 && (
+            <DiffusionPanel
+                data={graphData}
+                mode={graphMode}
+                seed={metrics.seed}
+                selectedNode={selectedNode}
+                onFrame={setDiffusionFrame}
+            />
+          )}
+
+          {graphData.nodes.length > 0 && (
+            <LinkPredictionPanel
+                data={graphData}
+                mode={graphMode}
+                seed={metrics.seed}
+                selectedNode={selectedNode}
+            />
+          )}
         </div>
 
         {/* Right Col: Metrics & AI */}
         <div className="col-span-12 lg:col-span-4 flex flex-col space-y-6">
             
+            {selectedNode && egoMetrics && (
+                <EgoPanel
+                    ego={selectedNode}
+                    metrics={egoMetrics}
+                    options={egoOptions}
+                    directed={graphMode.directed}
+                    onOptionsChange={setEgoOptions}
+                    onExport={handleEgoExport}
+                    onClose={() => setSelectedNode(null)}
+                />
+            )}
+
             {/* Quick Metrics Grid */}
             <div className="grid grid-cols-2 gap-4">
                 <MetricCard 
@@ -350,18 +791,215 @@ function App() {
                     value={metrics.avgDegree.toFixed(2)} 
                     description="Avg friends per user"
                 />
+                <MetricCard 
+                    title="Components" 
+                    value={metrics.componentCount} 
+                    description={graphMode.directed ? `${metrics.strongComponentCount} strongly connected` : "Connected groups"}
+                />
+                <MetricCard 
+                    title="Giant Component" 
+                    value={`${(metrics.giantComponentShare * 100).toFixed(1)}%`} 
+                    description="Share of all nodes"
+                />
+                <MetricCard 
+                    title="Diameter" 
+                    value={metrics.pathSamples !== null ? `≈ ${metrics.diameter}` : metrics.diameter} 
+                    description={metrics.pathSamples !== null ? `Estimated from ${metrics.pathSamples} BFS samples` : "Longest shortest path (hops)"}
+                />
+                <MetricCard 
+                    title="Avg Path Length" 
+                    value={metrics.avgPathLength.toFixed(2)} 
+                    description={graphMode.directed ? "Within largest strongly connected component" : "Within giant component"}
+                />
                 <MetricCard 
                     title="Communities" 
-                    value={new Set(graphData.nodes.map(n => n.group)).size} 
+                    value={metrics.communityCount} 
                     description="Detected clusters"
                 />
                  <MetricCard 
                     title="Modularity" 
                     value={metrics.modularity.toFixed(2)} 
-                    description="Cluster quality"
+                    description="Cluster quality (Q)"
+                />
+                <MetricCard 
+                    title="Reciprocity" 
+                    value={`${(metrics.reciprocity * 100).toFixed(1)}%`} 
+                    description="Follows that are mutual"
+                />
+                <MetricCard 
+                    title="Transitivity" 
+                    value={metrics.transitivity.toFixed(3)} 
+                    description={`Avg clustering ${metrics.avgClustering.toFixed(3)}`}
+                />
+                <MetricCard 
+                    title="Triangles" 
+                    value={metrics.triangleCount} 
+                    description="Closed friend-of-friend triads"
+                />
+                <MetricCard 
+                    title="Assortativity" 
+                    value={metrics.assortativity.toFixed(3)} 
+                    description={metrics.assortativity >= 0 ? "Hubs link to hubs" : "Hubs link to small accounts"}
                 />
             </div>
 
+            {graphData.nodes.length > 0 && (
+                <PathFinder
+                    data={graphData}
+                    mode={graphMode}
+                    result={shortestPaths}
+                    onResult={(result) => {
+                        setShortestPaths(result);
+                        // Paths are shown on the full graph rather than inside an ego-net
+                        if (result) setSelectedNode(null);
+                    }}
+                />
+            )}
+
+            {graphData.nodes.length > 0 && (
+                <BridgePanel
+                    data={graphData}
+                    mode={graphMode}
+                    seed={metrics.seed}
+                    result={bridges}
+                    onResult={setBridges}
+                    preview={showBridges}
+                    onPreviewChange={setShowBridges}
+                />
+            )}
+
+            {/* Analysis Settings */}
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                <h3 className="text-slate-500 text-xs font-semibold uppercase tracking-wider">Analysis Settings</h3>
+                <div className="flex items-center space-x-2">
+                    <label className="text-xs text-slate-500 w-20">Random Seed</label>
+                    <input
+                        type="number"
+                        value={analysisOptions.seed ?? DEFAULT_SEED}
+                        onChange={(e) => {
+                            const seed = parseInt(e.target.value, 10);
+                            if (!Number.isNaN(seed)) updateAnalysisOptions({ ...analysisOptions, seed });
+                        }}
+                        className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono text-slate-700"
+                    />
+                    <button
+                        onClick={() => updateAnalysisOptions({ ...analysisOptions, seed: randomSeed() })}
+                        title="Pick a new random seed"
+                        className="p-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition"
+                    >
+                        <Dices size={16} />
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    {([['directed', 'Directed'], ['weighted', 'Weighted']] as const).map(([key, label]) => (
+                        <label key={key} className="flex items-center space-x-2 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={graphMode[key]}
+                                onChange={(e) => updateAnalysisOptions({
+                                    ...analysisOptions,
+                                    mode: { ...graphMode, [key]: e.target.checked }
+                                })}
+                                className="accent-blue-600"
+                            />
+                            <span>{label}</span>
+                        </label>
+                    ))}
+                </div>
+                <div>
+                    <div className="flex justify-between text-xs text-slate-500 mb-1">
+                        <span>PageRank Damping (α)</span>
+                        <span className="font-mono">{(analysisOptions.pagerank?.damping ?? DEFAULT_DAMPING).toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0.5}
+                        max={0.99}
+                        step={0.01}
+                        value={analysisOptions.pagerank?.damping ?? DEFAULT_DAMPING}
+                        onChange={(e) => updateAnalysisOptions({
+                            ...analysisOptions,
+                            pagerank: { ...analysisOptions.pagerank, damping: parseFloat(e.target.value) }
+                        })}
+                        className="w-full accent-blue-600"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">Personalize PageRank toward</label>
+                    <div className="flex space-x-2">
+                        <input
+                            list="node-ids"
+                            value={personalizationDraft}
+                            onChange={(e) => setPersonalizationDraft(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && addPersonalizationNode(personalizationDraft)}
+                            placeholder="Account id"
+                            className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+                        />
+                        <datalist id="node-ids">
+                            {graphData.nodes.slice(0, 1000).map(n => <option key={n.id} value={n.id} />)}
+                        </datalist>
+                        <button
+                            onClick={() => addPersonalizationNode(selectedNode && !personalizationDraft ? selectedNode.id : personalizationDraft)}
+                            title={selectedNode && !personalizationDraft ? `Add ${selectedNode.id}` : 'Add account'}
+                            className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition"
+                        >
+                            Add
+                        </button>
+                    </div>
+                    {personalization.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {personalization.map(id => (
+                                <span key={id} className="flex items-center text-xs bg-blue-50 text-blue-700 border border-blue-100 rounded-full pl-2 pr-1 py-0.5">
+                                    {id}
+                                    <button
+                                        onClick={() => updateAnalysisOptions({
+                                            ...analysisOptions,
+                                            pagerank: { ...analysisOptions.pagerank, personalization: personalization.filter(p => p !== id) }
+                                        })}
+                                        className="ml-1 text-blue-400 hover:text-red-500"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <label className="block text-xs text-slate-500">Community Detection</label>
+                <select
+                    value={analysisOptions.community?.algorithm}
+                    onChange={(e) => updateAnalysisOptions({
+                        ...analysisOptions,
+                        community: { ...analysisOptions.community, algorithm: e.target.value as CommunityAlgorithm }
+                    })}
+                    className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+                >
+                    {Object.values(CommunityAlgorithm).map(algorithm => (
+                        <option key={algorithm} value={algorithm}>{COMMUNITY_ALGORITHM_LABELS[algorithm]}</option>
+                    ))}
+                </select>
+                <div className={analysisOptions.community?.algorithm === CommunityAlgorithm.LABEL_PROPAGATION ? 'opacity-50' : ''}>
+                    <div className="flex justify-between text-xs text-slate-500 mb-1">
+                        <span>Resolution (γ)</span>
+                        <span className="font-mono">{(analysisOptions.community?.resolution ?? 1).toFixed(1)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={0.1}
+                        max={3}
+                        step={0.1}
+                        value={analysisOptions.community?.resolution ?? 1}
+                        disabled={analysisOptions.community?.algorithm === CommunityAlgorithm.LABEL_PROPAGATION}
+                        onChange={(e) => updateAnalysisOptions({
+                            ...analysisOptions,
+                            community: { ...analysisOptions.community, resolution: parseFloat(e.target.value) }
+                        })}
+                        className="w-full accent-blue-600"
+                    />
+                    <p className="text-xs text-slate-400 mt-1">Higher values yield more, smaller communities.</p>
+                </div>
+            </div>
+
             {/* AI Analyst Panel */}
             <div className="bg-white rounded-xl shadow-lg border border-purple-100 flex-1 flex flex-col overflow-hidden ring-1 ring-purple-50">
                 <div className="p-4 bg-gradient-to-r from-purple-600 to-indigo-600 text-white flex justify-between items-center">
@@ -442,15 +1080,34 @@ print(nx.info(G))`}
 
                         <div className="space-y-2">
                             <h3 className="text-lg font-semibold text-slate-800">2. Centrality Analysis</h3>
-                            <p className="text-slate-600 text-sm">Compute PageRank to find influencers and Betweenness to find bridges.</p>
+                            <p className="text-slate-600 text-sm">Compute PageRank to find influencers, Betweenness to find bridges, and closeness, spectral, HITS and k-core scores for other kinds of reach.</p>
                             <pre className="bg-slate-900 text-slate-50 p-4 rounded-lg overflow-x-auto text-sm font-mono custom-scrollbar">
 {`# Calculate PageRank (Influence)
-pagerank_scores = nx.pagerank(G, alpha=0.85)
+pagerank_scores = nx.pagerank(G, alpha=0.85, tol=1e-06)
+
+# Personalized PageRank: influence relative to our brand accounts
+brand = {'brand_main': 1, 'brand_support': 1}
+relative_scores = nx.pagerank(G, alpha=0.85, personalization=brand)
 
 # Calculate Betweenness (Bridges)
 # Note: For large graphs, use k= for approximation
 betweenness_scores = nx.betweenness_centrality(G, k=100) 
 
+# Reach, prestige and follower-graph roles
+closeness = nx.closeness_centrality(G)
+harmonic = nx.harmonic_centrality(G)
+eigenvector = nx.eigenvector_centrality(G, max_iter=100)
+katz = nx.katz_centrality(G, alpha=0.1, beta=1.0)
+hubs, authorities = nx.hits(G)
+coreness = nx.core_number(G)
+
+# Mutual follows, clustering and degree mixing
+reciprocity = nx.overall_reciprocity(G)
+clustering = nx.clustering(G)
+transitivity = nx.transitivity(G.to_undirected())
+triangles = nx.triangles(G.to_undirected())
+assortativity = nx.degree_assortativity_coefficient(G)
+
 # Sort top 5 influencers
 top_influencers = sorted(
     pagerank_scores.items(), 
@@ -462,13 +1119,17 @@ top_influencers = sorted(
 
                          <div className="space-y-2">
                             <h3 className="text-lg font-semibold text-slate-800">3. Community Detection</h3>
-                            <p className="text-slate-600 text-sm">Detect clusters using Label Propagation or Louvain.</p>
+                            <p className="text-slate-600 text-sm">Detect clusters using Label Propagation, Louvain or Leiden, and score them with modularity.</p>
                             <pre className="bg-slate-900 text-slate-50 p-4 rounded-lg overflow-x-auto text-sm font-mono custom-scrollbar">
 {`from networkx.algorithms import community
 
 # Label Propagation (Fast)
 communities = list(community.label_propagation_communities(G))
 
+# Louvain (Modularity optimization; Leiden is available via igraph/leidenalg)
+communities = community.louvain_communities(G.to_undirected(), resolution=1.0)
+Q = community.modularity(G.to_undirected(), communities)
+
 # Add community attribute to nodes for visualization
 for i, comm in enumerate(communities):
     for node in comm:
@@ -480,6 +1141,15 @@ for i, comm in enumerate(communities):
             </div>
         )}
       </main>
+
+      {pendingImport && (
+        <ImportDialog
+          fileName={pendingImport.fileName}
+          text={pendingImport.text}
+          onCancel={() => setPendingImport(null)}
+          onImport={handleImport}
+        />
+      )}
     </div>
   );
 }
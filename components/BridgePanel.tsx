@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GitMerge, Eye, EyeOff, X } from 'lucide-react';
+import { GraphData, GraphMode } from '../types';
+import { BridgeRecommendation } from '../services/bridges';
+import { runBridges, ComputeJob } from '../services/computeClient';
+
+interface BridgePanelProps {
+  data: GraphData;
+  mode: GraphMode;
+  seed: number;
+  result: BridgeRecommendation | null;
+  onResult: (result: BridgeRecommendation | null) => void;
+  preview: boolean;
+  onPreviewChange: (preview: boolean) => void;
+}
+
+// Picks two communities and proposes the ties that would bring them closest together
+const BridgePanel: React.FC<BridgePanelProps> = ({ data, mode, seed, result, onResult, preview, onPreviewChange }) => {
+  // Communities by size, largest first
+  const communities = useMemo(() => {
+    const sizes = new Map<number, number>();
+    data.nodes.forEach(n => sizes.set(n.group ?? 0, (sizes.get(n.group ?? 0) ?? 0) + 1));
+    return Array.from(sizes, ([group, size]) => ({ group, size })).sort((a, b) => b.size - a.size || a.group - b.group);
+  }, [data]);
+
+  const [communityA, setCommunityA] = useState<number | null>(null);
+  const [communityB, setCommunityB] = useState<number | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // Set while a search runs
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ComputeJob<BridgeRecommendation> | null>(null);
+
+  const cancel = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => cancel, [data]);
+
+  useEffect(() => {
+    setCommunityA(communities[0]?.group ?? null);
+    setCommunityB(communities[1]?.group ?? null);
+  }, [communities]);
+
+  const labelOf = (id: string) => data.nodes.find(n => n.id === id)?.label || id;
+  const canRecommend = communityA !== null && communityB !== null && communityA !== communityB;
+
+  // Hundreds of breadth-first searches per suggestion, so the search runs in a worker
+  const recommend = () => {
+    if (!canRecommend) return;
+    cancel();
+    setError(null);
+    setProgress(0);
+    const job = runBridges(data, communityA!, communityB!, mode, seed, setProgress);
+    jobRef.current = job;
+    job.promise
+      .then(next => {
+        if (!next || jobRef.current !== job) return;
+        onResult(next);
+        onPreviewChange(true);
+      })
+      .catch(err => {
+        if (jobRef.current === job) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (jobRef.current !== job) return;
+        jobRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const communitySelect = (value: number | null, onChange: (group: number) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="flex-1 min-w-0 text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-slate-50 text-slate-700"
+    >
+      {communities.map(c => (
+        <option key={c.group} value={c.group}>Community {c.group} ({c.size})</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+      <h3 className="text-slate-500 text-xs font-semibold uppercase tracking-wider flex items-center">
+        <GitMerge size={14} className="mr-1.5" />
+        Bridge Recommender
+      </h3>
+      {communities.length < 2 ? (
+        <p className="text-xs text-slate-400 italic">Needs at least two communities.</p>
+      ) : (
+        <>
+          <div className="flex items-center space-x-2">
+            {communitySelect(communityA, setCommunityA)}
+            <span className="text-slate-400 text-xs">and</span>
+            {communitySelect(communityB, setCommunityB)}
+          </div>
+          <div className="flex justify-end space-x-2">
+            {result && (
+              <>
+                <button
+                  onClick={() => onPreviewChange(!preview)}
+                  title={preview ? 'Hide preview' : 'Preview on graph'}
+                  className="p-1.5 text-slate-400 hover:text-emerald-600"
+                >
+                  {preview ? <EyeOff size={16} /> : <Eye size={16} />}
+                </button>
+                <button
+                  onClick={() => onResult(null)}
+                  className="px-3 py-1.5 text-slate-500 hover:text-red-500 rounded-lg text-sm transition"
+                >
+                  Clear
+                </button>
+              </>
+            )}
+            {progress !== null && (
+              <button onClick={cancel} title="Cancel search" className="p-1.5 text-slate-400 hover:text-red-500">
+                <X size={16} />
+              </button>
+            )}
+            <button
+              onClick={recommend}
+              disabled={!canRecommend || progress !== null}
+              className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-200 disabled:text-slate-400 text-white rounded-lg text-sm font-medium transition"
+            >
+              {progress !== null ? `Searching… ${Math.round(progress * 100)}%` : 'Recommend'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600">Search failed: {error}</p>}
+        </>
+      )}
+
+      {result && (
+        <div className="text-xs text-slate-600 space-y-3">
+          <p>
+            Average distance between communities {result.communityA} and {result.communityB}:{' '}
+            <span className="font-bold text-slate-800">{result.averageDistance.toFixed(2)}</span> hops
+            {result.unreachablePairs > 0 && <span className="text-slate-400"> ({result.unreachablePairs} pairs unreachable)</span>}
+            {result.sampled && <span className="text-slate-400"> · sampled</span>}
+          </p>
+
+          {result.suggestions.length > 0 ? (
+            <div>
+              <div className="text-slate-400 uppercase tracking-wider text-[10px] font-semibold mb-1">Suggested ties</div>
+              <ol className="space-y-1">
+                {result.suggestions.map((s, i) => (
+                  <li key={`${s.source}-${s.target}`} className="flex justify-between bg-emerald-50 border border-emerald-100 rounded px-2 py-1 text-slate-700">
+                    <span className="truncate">{i + 1}. {labelOf(s.source)} ↔ {labelOf(s.target)}</span>
+                    <span className="font-mono text-slate-500 ml-2" title="Average distance after adding this tie">{s.averageDistance.toFixed(2)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : (
+            <p className="text-slate-400 italic">No new tie would shorten the distance further.</p>
+          )}
+
+          {result.brokers.length > 0 && (
+            <div>
+              <div className="text-slate-400 uppercase tracking-wider text-[10px] font-semibold mb-1">Existing bridge accounts</div>
+              <ul className="space-y-1">
+                {result.brokers.map(b => (
+                  <li key={b.id} className="flex justify-between px-2">
+                    <span className="truncate">{labelOf(b.id)} <span className="text-slate-400">(community {b.group})</span></span>
+                    <span className="font-mono text-slate-500 ml-2" title="Ties into each community">{b.tiesA} / {b.tiesB}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BridgePanel;
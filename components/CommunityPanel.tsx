@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { Boxes, X } from 'lucide-react';
+import { GraphData } from '../types';
+import { CommunityStats, communityColor } from '../services/communityStats';
+
+interface CommunityPanelProps {
+  data: GraphData;
+  stats: CommunityStats[];
+  highlighted: number | null;
+  onHighlight: (group: number | null) => void;
+}
+
+const Swatch: React.FC<{ group: number }> = ({ group }) => (
+  <span className="inline-block w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: communityColor(group) }} />
+);
+
+// Per-community statistics; the swatches double as the graph's color legend and
+// clicking a community highlights it on the graph
+const CommunityPanel: React.FC<CommunityPanelProps> = ({ data, stats, highlighted, onHighlight }) => {
+  const labels = useMemo(() => new Map(data.nodes.map(n => [n.id, n.label || n.id])), [data]);
+
+  const toggle = (group: number) => onHighlight(group === highlighted ? null : group);
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center">
+          <Boxes className="w-4 h-4 mr-2 text-indigo-500" />
+          Community Inspector
+        </h3>
+        {highlighted !== null && (
+          <button
+            onClick={() => onHighlight(null)}
+            className="flex items-center space-x-1 text-xs text-slate-500 hover:text-red-500 transition"
+          >
+            <X size={12} />
+            <span>Clear highlight</span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 mb-4">
+        {stats.map(s => (
+          <button
+            key={s.group}
+            onClick={() => toggle(s.group)}
+            className={`flex items-center space-x-1 text-xs px-2 py-0.5 rounded-full border transition ${s.group === highlighted ? 'border-slate-400 bg-slate-100 text-slate-800' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+          >
+            <Swatch group={s.group} />
+            <span>{s.group}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-auto max-h-80">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2">Community</th>
+              <th className="px-3 py-2 text-right">Size</th>
+              <th className="px-3 py-2 text-right" title="Internal ties over the possible ones">Density</th>
+              <th className="px-3 py-2 text-right" title="Share of the community's ties that leave it; lower is better separated">Conductance</th>
+              <th className="px-3 py-2">Top members</th>
+              <th className="px-3 py-2">Most connected to</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(s => (
+              <tr
+                key={s.group}
+                onClick={() => toggle(s.group)}
+                className={`border-b border-slate-50 cursor-pointer transition ${s.group === highlighted ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+              >
+                <td className="px-3 py-2">
+                  <span className="flex items-center space-x-2 font-medium text-slate-700">
+                    <Swatch group={s.group} />
+                    <span>{s.group}</span>
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right text-slate-600 font-mono">{s.size}</td>
+                <td className="px-3 py-2 text-right text-slate-600 font-mono">{s.density.toFixed(3)}</td>
+                <td className="px-3 py-2 text-right text-slate-600 font-mono">{s.conductance.toFixed(3)}</td>
+                <td className="px-3 py-2 text-xs text-slate-600 max-w-[12rem] truncate" title={s.topMembers.map(id => labels.get(id)).join(', ')}>
+                  {s.topMembers.map(id => labels.get(id)).join(', ')}
+                </td>
+                <td className="px-3 py-2 text-xs text-slate-600">
+                  {s.neighbors.length > 0 ? (
+                    <span className="flex flex-wrap gap-x-3 gap-y-1">
+                      {s.neighbors.map(n => (
+                        <span key={n.group} className="flex items-center space-x-1" title={`${n.links} follows between communities ${s.group} and ${n.group}`}>
+                          <Swatch group={n.group} />
+                          <span>{n.group}</span>
+                          <span className="text-slate-400 font-mono">({n.links})</span>
+                        </span>
+                      ))}
+                    </span>
+                  ) : (
+                    <span className="text-slate-400 italic">Isolated</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default CommunityPanel;
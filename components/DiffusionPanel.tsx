@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Zap, Play, Pause, X } from 'lucide-react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, TooltipValueType } from 'recharts';
+import { GraphData, GraphMode, Node, DiffusionModel, DiffusionOptions } from '../types';
+import {
+  diffusionFrame,
+  DiffusionResult,
+  DiffusionState,
+  DEFAULT_DIFFUSION_OPTIONS,
+  DIFFUSION_MODEL_LABELS
+} from '../services/diffusion';
+import { runDiffusion, ComputeJob } from '../services/computeClient';
+
+interface DiffusionPanelProps {
+  data: GraphData;
+  mode: GraphMode;
+  seed: number;
+  selectedNode: Node | null;
+  onFrame: (frame: Map<string, DiffusionState> | null) => void;
+}
+
+const PLAYBACK_INTERVAL_MS = 600;
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }> = ({
+  label, value, min, max, step, onChange
+}) => (
+  <div>
+    <div className="flex justify-between text-xs text-slate-500 mb-1">
+      <span>{label}</span>
+      <span className="font-mono">{value.toFixed(2)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full accent-red-500"
+    />
+  </div>
+);
+
+// "What-if" sandbox: Monte Carlo spread from chosen seed accounts, with playback of one run
+const DiffusionPanel: React.FC<DiffusionPanelProps> = ({ data, mode, seed, selectedNode, onFrame }) => {
+  const [options, setOptions] = useState<DiffusionOptions>({ ...DEFAULT_DIFFUSION_OPTIONS, seeds: [] });
+  const [seedDraft, setSeedDraft] = useState('');
+  const [result, setResult] = useState<DiffusionResult | null>(null);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null); // Set while a simulation runs
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ComputeJob<DiffusionResult> | null>(null);
+
+  const cancel = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setProgress(null);
+  };
+
+  // A new graph invalidates both the seeds and any finished simulation
+  useEffect(() => {
+    cancel();
+    setResult(null);
+    setPlaying(false);
+    setOptions(prev => ({ ...prev, seeds: prev.seeds.filter(id => data.nodes.some(n => n.id === id)) }));
+  }, [data]);
+
+  useEffect(() => {
+    onFrame(result ? diffusionFrame(result, step) : null);
+  }, [result, step, onFrame]);
+
+  useEffect(() => {
+    if (!playing || !result) return;
+    if (step >= result.sample.steps) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(s => s + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, result]);
+
+  const addSeed = (id: string) => {
+    const trimmed = id.trim();
+    if (!trimmed || options.seeds.includes(trimmed)) return;
+    if (!data.nodes.some(n => n.id === trimmed)) return;
+    setSeedDraft('');
+    setOptions({ ...options, seeds: [...options.seeds, trimmed] });
+  };
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  // Up to a thousand Monte Carlo runs, so the simulation runs in a worker
+  const runSimulation = () => {
+    if (options.seeds.length === 0) return;
+    cancel();
+    setError(null);
+    setProgress(0);
+    const job = runDiffusion(data, options, mode, seed, setProgress);
+    jobRef.current = job;
+    job.promise
+      .then(next => {
+        if (!next || jobRef.current !== job) return;
+        setResult(next);
+        setStep(0);
+        setPlaying(true);
+      })
+      .catch(err => {
+        if (jobRef.current === job) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (jobRef.current !== job) return;
+        jobRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const clearSimulation = () => {
+    setResult(null);
+    setPlaying(false);
+  };
+
+  const reach = result?.finalReach;
+  const isSIR = options.model === DiffusionModel.SIR;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center">
+          <Zap className="w-4 h-4 mr-2 text-red-500" />
+          Virality Simulator
+        </h3>
+        <select
+          value={options.model}
+          onChange={(e) => setOptions({ ...options, model: e.target.value as DiffusionModel })}
+          className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+        >
+          {Object.values(DiffusionModel).map(model => (
+            <option key={model} value={model}>{DIFFUSION_MODEL_LABELS[model]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs text-slate-500 mb-1">Seed accounts</label>
+            <div className="flex space-x-2">
+              <input
+                list="node-ids"
+                value={seedDraft}
+                onChange={(e) => setSeedDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addSeed(seedDraft)}
+                placeholder="Account id"
+                className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+              />
+              <button
+                onClick={() => addSeed(selectedNode && !seedDraft ? selectedNode.id : seedDraft)}
+                title={selectedNode && !seedDraft ? `Add ${selectedNode.id}` : 'Add account'}
+                className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition"
+              >
+                Add
+              </button>
+            </div>
+            {options.seeds.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {options.seeds.map(id => (
+                  <span key={id} className="flex items-center text-xs bg-violet-50 text-violet-700 border border-violet-100 rounded-full pl-2 pr-1 py-0.5">
+                    {id}
+                    <button
+                      onClick={() => setOptions({ ...options, seeds: options.seeds.filter(s => s !== id) })}
+                      className="ml-1 text-violet-400 hover:text-red-500"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {options.model === DiffusionModel.LINEAR_THRESHOLD ? (
+            <p className="text-xs text-slate-400">
+              Each account adopts once the followed accounts that posted outweigh its random threshold.
+            </p>
+          ) : (
+            <Slider
+              label={isSIR ? 'Infection rate (β)' : 'Activation probability (p)'}
+              value={options.probability}
+              min={0.01}
+              max={0.5}
+              step={0.01}
+              onChange={(probability) => setOptions({ ...options, probability })}
+            />
+          )}
+          {isSIR && (
+            <Slider
+              label="Recovery rate (γ)"
+              value={options.recoveryRate}
+              min={0.01}
+              max={1}
+              step={0.01}
+              onChange={(recoveryRate) => setOptions({ ...options, recoveryRate })}
+            />
+          )}
+
+          <div className="flex items-center space-x-2">
+            <label className="text-xs text-slate-500">Monte Carlo runs</label>
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={options.runs}
+              onChange={(e) => {
+                const runs = parseInt(e.target.value, 10);
+                if (!Number.isNaN(runs)) setOptions({ ...options, runs: Math.max(1, Math.min(1000, runs)) });
+              }}
+              className="w-20 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono text-slate-700"
+            />
+            <div className="flex-1" />
+            {progress !== null && (
+              <button onClick={cancel} title="Cancel simulation" className="p-1 text-slate-400 hover:text-red-500">
+                <X size={14} />
+              </button>
+            )}
+            {result && (
+              <button onClick={clearSimulation} className="px-3 py-1.5 text-slate-500 hover:text-red-500 text-sm transition">
+                Clear
+              </button>
+            )}
+            <button
+              onClick={runSimulation}
+              disabled={options.seeds.length === 0 || progress !== null}
+              className="px-3 py-1.5 bg-red-500 hover:bg-red-600 disabled:bg-slate-200 disabled:text-slate-400 text-white rounded-lg text-sm font-medium transition"
+            >
+              {progress !== null ? `Simulating… ${Math.round(progress * 100)}%` : 'Simulate'}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600">Simulation failed: {error}</p>}
+
+          {reach && result && (
+            <div className="text-xs text-slate-600 bg-slate-50 rounded-lg p-3 space-y-1">
+              <div>
+                Final reach <span className="font-bold text-slate-800">{reach.mean.toFixed(1)}</span> ± {reach.stdDev.toFixed(1)} accounts
+                {' '}({((reach.mean / Math.max(1, result.nodeCount)) * 100).toFixed(1)}% of the network)
+              </div>
+              <div className="text-slate-400">
+                Variance {reach.variance.toFixed(1)} · range {reach.min}–{reach.max} over {result.options.runs} runs
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div>
+          {result ? (
+            <>
+              <div className="h-40 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={result.curve}>
+                    <XAxis dataKey="step" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                    <YAxis tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                    <Tooltip
+                      formatter={(value: TooltipValueType, name: string) => Array.isArray(value)
+                        ? [`${Number(value[0]).toFixed(1)} – ${Number(value[1]).toFixed(1)}`, '±1 sd']
+                        : [Number(value).toFixed(1), 'Mean reach']}
+                      labelFormatter={(label) => `Step ${label}`}
+                      contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Area dataKey="band" stroke="none" fill="#fecaca" isAnimationActive={false} />
+                    <Line dataKey="mean" stroke="#ef4444" strokeWidth={2} dot={false} isAnimationActive={false} />
+                    <ReferenceLine x={Math.min(step, result.curve.length - 1)} stroke="#94a3b8" strokeDasharray="3 3" />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex items-center space-x-2 mt-2">
+                <button
+                  onClick={() => {
+                    if (step >= result.sample.steps) setStep(0);
+                    setPlaying(!playing);
+                  }}
+                  title={playing ? 'Pause' : 'Play sample run'}
+                  className="p-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition"
+                >
+                  {playing ? <Pause size={14} /> : <Play size={14} />}
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={result.sample.steps}
+                  value={step}
+                  onChange={(e) => {
+                    setPlaying(false);
+                    setStep(parseInt(e.target.value, 10));
+                  }}
+                  className="flex-1 accent-red-500"
+                />
+                <span className="text-xs text-slate-500 font-mono w-16 text-right">step {step}/{result.sample.steps}</span>
+              </div>
+              <p className="text-[11px] text-slate-400 mt-1">
+                The graph replays one sample run: <span className="text-violet-600">seeds</span>, <span className="text-red-500">reached</span>
+                {isSIR && <>, <span className="text-slate-500">recovered</span></>}.
+              </p>
+            </>
+          ) : (
+            <div className="h-40 flex items-center justify-center text-xs text-slate-400 italic bg-slate-50 rounded-lg">
+              Add seed accounts and run a simulation to chart cumulative reach.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiffusionPanel;
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Crosshair, X, Download } from 'lucide-react';
+import { Node, EgoOptions, EgoDirection } from '../types';
+import { EgoMetrics, MAX_EGO_RADIUS } from '../services/ego';
+
+export type EgoExportFormat = 'graphml' | 'gexf' | 'edges';
+
+interface EgoPanelProps {
+  ego: Node;
+  metrics: EgoMetrics;
+  options: EgoOptions;
+  directed: boolean;
+  onOptionsChange: (options: EgoOptions) => void;
+  onExport: (format: EgoExportFormat) => void;
+  onClose: () => void;
+}
+
+const DIRECTION_LABELS: Record<EgoDirection, string> = {
+  [EgoDirection.FOLLOWERS]: 'Followers',
+  [EgoDirection.FOLLOWING]: 'Following',
+  [EgoDirection.BOTH]: 'Both',
+};
+
+const EXPORT_LABELS: Record<EgoExportFormat, string> = {
+  graphml: 'GraphML',
+  gexf: 'GEXF',
+  edges: 'Edge CSV',
+};
+
+const Stat: React.FC<{ label: string; value: string | number; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-50 rounded-lg px-3 py-2" title={hint}>
+    <div className="text-[10px] uppercase tracking-wider text-slate-400 font-semibold">{label}</div>
+    <div className="text-sm font-bold text-slate-800 font-mono">{value}</div>
+  </div>
+);
+
+const EgoPanel: React.FC<EgoPanelProps> = ({ ego, metrics, options, directed, onOptionsChange, onExport, onClose }) => {
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-blue-200 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-500 text-xs font-semibold uppercase tracking-wider flex items-center">
+          <Crosshair size={14} className="mr-1.5 text-blue-500" />
+          Ego Network · <span className="ml-1 normal-case text-slate-800">{ego.label || ego.id}</span>
+        </h3>
+        <button onClick={onClose} title="Leave ego view" className="text-slate-400 hover:text-red-500">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-slate-500 mb-1">
+          <span>Radius</span>
+          <span className="font-mono">{options.radius} hop{options.radius === 1 ? '' : 's'}</span>
+        </div>
+        <input
+          type="range"
+          min={1}
+          max={MAX_EGO_RADIUS}
+          step={1}
+          value={options.radius}
+          onChange={(e) => onOptionsChange({ ...options, radius: parseInt(e.target.value, 10) })}
+          className="w-full accent-blue-600"
+        />
+      </div>
+
+      <div className={`grid grid-cols-3 gap-1 bg-slate-100 p-1 rounded-lg ${directed ? '' : 'opacity-50'}`}>
+        {Object.values(EgoDirection).map(direction => (
+          <button
+            key={direction}
+            disabled={!directed}
+            onClick={() => onOptionsChange({ ...options, direction })}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition ${
+              options.direction === direction ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {DIRECTION_LABELS[direction]}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Stat
+          label="Alters"
+          value={metrics.alters}
+          hint={metrics.altersByHop.map((count, i) => `${i + 1} hop${i ? 's' : ''}: ${count}`).join(', ')}
+        />
+        <Stat label="Ego Density" value={metrics.density.toFixed(3)} hint={`${metrics.alterTies} ties among alters`} />
+        <Stat
+          label="Effective Size"
+          value={metrics.effectiveSize.toFixed(2)}
+          hint={`Non-redundant contacts (efficiency ${metrics.efficiency.toFixed(2)})`}
+        />
+        <Stat label="Constraint" value={metrics.constraint.toFixed(3)} hint="Low constraint means brokerage across structural holes" />
+      </div>
+      <p className="text-[11px] text-slate-400">Effective size and constraint use the account's direct contacts.</p>
+
+      <div className="flex items-center space-x-2">
+        <Download size={14} className="text-slate-400" />
+        {(Object.keys(EXPORT_LABELS) as EgoExportFormat[]).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(format)}
+            className="px-2 py-1 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded text-xs font-medium transition"
+          >
+            {EXPORT_LABELS[format]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EgoPanel;
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, AlertTriangle, X } from 'lucide-react';
+import {
+  parseDelimited,
+  detectDelimiter,
+  detectHeader,
+  guessColumnMapping,
+  buildEdgeList,
+  ColumnMapping,
+  DELIMITERS,
+  DELIMITER_LABELS
+} from '../services/importUtils';
+import { RawLink } from '../services/graphUtils';
+
+interface ImportDialogProps {
+  fileName: string;
+  text: string;
+  onCancel: () => void;
+  onImport: (links: RawLink[]) => void;
+}
+
+const PREVIEW_ROWS = 8;
+const MAX_LISTED_SKIPS = 50;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ fileName, text, onCancel, onImport }) => {
+  const [delimiter, setDelimiter] = useState(() => detectDelimiter(text));
+  const parsed = useMemo(() => parseDelimited(text, delimiter), [text, delimiter]);
+
+  const [hasHeader, setHasHeader] = useState(() => detectHeader(parsed.rows));
+  const columnCount = useMemo(
+    () => parsed.rows.slice(0, 50).reduce((max, r) => Math.max(max, r.cells.length), 0),
+    [parsed]
+  );
+  const columnNames = useMemo(() => Array.from({ length: columnCount }, (_, i) => {
+    const name = hasHeader ? parsed.rows[0]?.cells[i]?.trim() : '';
+    return name || `Column ${i + 1}`;
+  }), [parsed, hasHeader, columnCount]);
+
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    guessColumnMapping(hasHeader ? parsed.rows[0]?.cells ?? null : null, columnCount)
+  );
+
+  const result = useMemo(() => buildEdgeList(parsed.rows, mapping, hasHeader), [parsed, mapping, hasHeader]);
+  const skipped = [...parsed.errors, ...result.skipped];
+  const previewRows = parsed.rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS);
+
+  // Re-guess the mapping when the column layout changes underneath it
+  const changeDelimiter = (next: string) => {
+    const rows = parseDelimited(text, next).rows;
+    const header = detectHeader(rows);
+    const width = rows.slice(0, 50).reduce((max, r) => Math.max(max, r.cells.length), 0);
+    setDelimiter(next);
+    setHasHeader(header);
+    setMapping(guessColumnMapping(header ? rows[0]?.cells ?? null : null, width));
+  };
+
+  const columnSelect = (field: keyof ColumnMapping, optional: boolean) => (
+    <select
+      value={mapping[field] ?? ''}
+      onChange={(e) => setMapping({
+        ...mapping,
+        [field]: e.target.value === '' ? null : parseInt(e.target.value, 10)
+      })}
+      className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+    >
+      {optional && <option value="">None</option>}
+      {columnNames.map((name, i) => <option key={i} value={i}>{name}</option>)}
+    </select>
+  );
+
+  const roleOf = (col: number) => {
+    if (col === mapping.source) return 'bg-blue-50 text-blue-700';
+    if (col === mapping.target) return 'bg-green-50 text-green-700';
+    if (col === mapping.weight) return 'bg-orange-50 text-orange-700';
+    if (col === mapping.timestamp) return 'bg-purple-50 text-purple-700';
+    return 'text-slate-400';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6" onClick={onCancel}>
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-3xl max-h-full flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <FileSpreadsheet size={20} className="text-blue-600" />
+            <h2 className="font-bold text-slate-800">Import Edge List</h2>
+            <span className="text-xs text-slate-400 font-mono">{fileName}</span>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-slate-500 uppercase tracking-wider mb-1">Delimiter</label>
+              <select
+                value={delimiter}
+                onChange={(e) => changeDelimiter(e.target.value)}
+                className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+              >
+                {DELIMITERS.map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+              </select>
+            </div>
+            <label className="flex items-end space-x-2 text-sm text-slate-600 pb-1.5">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} className="accent-blue-600" />
+              <span>First row is a header</span>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-xs font-semibold text-blue-600 uppercase tracking-wider mb-1">Source</label>
+              {columnSelect('source', false)}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-green-600 uppercase tracking-wider mb-1">Target</label>
+              {columnSelect('target', false)}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-orange-600 uppercase tracking-wider mb-1">Weight</label>
+              {columnSelect('weight', true)}
+            </div>
+            <div>
+              <label className="block text-xs font-semibold text-purple-600 uppercase tracking-wider mb-1">Timestamp</label>
+              {columnSelect('timestamp', true)}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-100 rounded-lg">
+            <table className="w-full text-xs text-left font-mono">
+              <thead className="text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                <tr>
+                  {columnNames.map((name, i) => <th key={i} className={`px-3 py-2 ${roleOf(i)}`}>{name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {previewRows.map(row => (
+                  <tr key={row.line} className="border-b border-slate-50">
+                    {columnNames.map((_, i) => (
+                      <td key={i} className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{row.cells[i] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="text-sm text-slate-600">
+            <span className="font-bold text-slate-800">{result.links.length.toLocaleString()}</span> edges ready to import
+            {skipped.length > 0 && (
+              <span className="text-amber-600"> · {skipped.length.toLocaleString()} rows skipped</span>
+            )}
+          </div>
+
+          {skipped.length > 0 && (
+            <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 max-h-32 overflow-y-auto custom-scrollbar">
+              <div className="flex items-center text-xs font-bold text-amber-700 mb-1">
+                <AlertTriangle size={14} className="mr-1" /> Skipped / malformed rows
+              </div>
+              <ul className="text-xs text-amber-800 font-mono space-y-0.5">
+                {skipped.slice(0, MAX_LISTED_SKIPS).map((s, i) => (
+                  <li key={i}>Line {s.line}: {s.reason}</li>
+                ))}
+                {skipped.length > MAX_LISTED_SKIPS && <li>…and {skipped.length - MAX_LISTED_SKIPS} more</li>}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end space-x-3">
+          <button onClick={onCancel} className="px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(result.links)}
+            disabled={result.links.length === 0 || mapping.source === mapping.target}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {result.links.length.toLocaleString()} Edges
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Target, X } from 'lucide-react';
+import { GraphData, GraphMode, DiffusionModel, InfluenceOptions, InfluenceStrategy } from '../types';
+import { DIFFUSION_MODEL_LABELS } from '../services/diffusion';
+import {
+  InfluenceComparison,
+  DEFAULT_INFLUENCE_OPTIONS,
+  INFLUENCE_STRATEGY_LABELS,
+  MAX_INFLUENCE_BUDGET
+} from '../services/influence';
+import { runInfluence, ComputeJob } from '../services/computeClient';
+
+interface InfluencePanelProps {
+  data: GraphData;
+  mode: GraphMode;
+  seed: number;
+}
+
+// Seed-set optimization, shown next to Top Influencers to compare picks by spread
+const InfluencePanel: React.FC<InfluencePanelProps> = ({ data, mode, seed }) => {
+  const [options, setOptions] = useState<InfluenceOptions>(DEFAULT_INFLUENCE_OPTIONS);
+  const [comparison, setComparison] = useState<InfluenceComparison | null>(null);
+  const [strategy, setStrategy] = useState<InfluenceStrategy>(InfluenceStrategy.GREEDY);
+  const [progress, setProgress] = useState<number | null>(null); // Set while a search runs
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<ComputeJob<InfluenceComparison> | null>(null);
+
+  const cancel = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setProgress(null);
+  };
+
+  useEffect(() => {
+    cancel();
+    setComparison(null);
+  }, [data]);
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  // Monte Carlo greedy search runs in a worker so large graphs don't freeze the page
+  const optimize = () => {
+    cancel();
+    setError(null);
+    setProgress(0);
+    const job = runInfluence(data, options, mode, seed, setProgress);
+    jobRef.current = job;
+    job.promise
+      .then(next => {
+        if (next && jobRef.current === job) setComparison(next);
+      })
+      .catch(err => {
+        if (jobRef.current === job) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (jobRef.current !== job) return;
+        jobRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const result = comparison?.results[strategy];
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center">
+          <Target className="w-4 h-4 mr-2 text-red-500" />
+          Best Seed Set
+        </h3>
+        <select
+          value={options.model}
+          onChange={(e) => setOptions({ ...options, model: e.target.value as DiffusionModel })}
+          className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+        >
+          {Object.values(DiffusionModel).map(model => (
+            <option key={model} value={model}>{DIFFUSION_MODEL_LABELS[model]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center space-x-2 mb-3">
+        <label className="text-xs text-slate-500">k</label>
+        <input
+          type="number"
+          min={1}
+          max={MAX_INFLUENCE_BUDGET}
+          value={options.budget}
+          onChange={(e) => {
+            const budget = parseInt(e.target.value, 10);
+            if (!Number.isNaN(budget)) setOptions({ ...options, budget: Math.max(1, Math.min(MAX_INFLUENCE_BUDGET, budget)) });
+          }}
+          className="w-14 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono text-slate-700"
+        />
+        {options.model !== DiffusionModel.LINEAR_THRESHOLD && (
+          <>
+            <label className="text-xs text-slate-500">{options.model === DiffusionModel.SIR ? 'β' : 'p'}</label>
+            <input
+              type="number"
+              min={0.01}
+              max={1}
+              step={0.01}
+              value={options.probability}
+              onChange={(e) => {
+                const probability = parseFloat(e.target.value);
+                if (!Number.isNaN(probability)) setOptions({ ...options, probability: Math.max(0.01, Math.min(1, probability)) });
+              }}
+              className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono text-slate-700"
+            />
+          </>
+        )}
+        <div className="flex-1" />
+        {progress !== null && (
+          <button onClick={cancel} title="Cancel search" className="p-1 text-slate-400 hover:text-red-500">
+            <X size={14} />
+          </button>
+        )}
+        <button
+          onClick={optimize}
+          disabled={progress !== null || data.nodes.length === 0}
+          className="px-3 py-1.5 bg-red-500 hover:bg-red-600 disabled:bg-slate-200 disabled:text-slate-400 text-white rounded-lg text-sm font-medium transition"
+        >
+          {progress !== null ? `Optimizing… ${Math.round(progress * 100)}%` : 'Optimize'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-600 mb-3">Search failed: {error}</p>}
+
+      {comparison && result ? (
+        <>
+          <div className="grid grid-cols-3 gap-1 bg-slate-100 p-1 rounded-lg mb-3">
+            {Object.values(InfluenceStrategy).map(s => (
+              <button
+                key={s}
+                onClick={() => setStrategy(s)}
+                className={`px-2 py-1 rounded-md text-xs font-medium transition ${
+                  strategy === s ? 'bg-white text-red-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <div>{INFLUENCE_STRATEGY_LABELS[s]}</div>
+                <div className="font-mono text-[10px] text-slate-400">{comparison.results[s].reach.mean.toFixed(1)}</div>
+              </button>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                <tr>
+                  <th className="px-3 py-2">Rank</th>
+                  <th className="px-3 py-2">Node ID</th>
+                  <th className="px-3 py-2 text-right">Est. Reach</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.seeds.map((s, i) => (
+                  <tr key={s.id} className="border-b border-slate-50 hover:bg-slate-50/50">
+                    <td className="px-3 py-2 text-slate-400 font-mono">#{i + 1}</td>
+                    <td className="px-3 py-2 font-medium text-slate-700">{s.id}</td>
+                    <td className="px-3 py-2 text-right text-slate-600 font-mono">{s.reach.toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-400 mt-2">
+            Cumulative expected reach over {comparison.options.runs} runs (± {result.reach.stdDev.toFixed(1)} for all {result.seeds.length} seeds).
+            {comparison.candidateCount < comparison.nodeCount && ` Greedy searched the ${comparison.candidateCount} most-followed accounts.`}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-slate-400 italic text-center py-4">
+          Choose a budget k and optimize to compare greedy spread maximization against degree-discount and PageRank picks.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InfluencePanel;
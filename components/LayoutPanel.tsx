@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, Lock, Unlock, RefreshCw } from 'lucide-react';
+import { LayoutAlgorithm, LayoutOptions } from '../types';
+import { LAYOUT_ALGORITHM_LABELS } from '../services/layout';
+
+interface LayoutPanelProps {
+  options: LayoutOptions;
+  onChange: (options: LayoutOptions) => void;
+  frozen: boolean;
+  onFrozenChange: (frozen: boolean) => void;
+}
+
+type NumericParameter = 'linkDistance' | 'charge' | 'iterations' | 'scaling' | 'gravity' | 'nodeSpacing' | 'levelSpacing';
+
+interface ParameterSpec {
+  key: NumericParameter;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Parameters each algorithm reads, in the order they are shown
+const PARAMETERS: Record<LayoutAlgorithm, ParameterSpec[]> = {
+  [LayoutAlgorithm.FORCE]: [
+    { key: 'linkDistance', label: 'Link distance', min: 10, max: 200, step: 5 },
+    { key: 'charge', label: 'Charge', min: -1000, max: -10, step: 10 },
+  ],
+  [LayoutAlgorithm.FORCE_ATLAS2]: [
+    { key: 'scaling', label: 'Scaling (repulsion)', min: 1, max: 100, step: 1 },
+    { key: 'gravity', label: 'Gravity', min: 0, max: 10, step: 0.1 },
+    { key: 'iterations', label: 'Iterations', min: 50, max: 1000, step: 50 },
+  ],
+  [LayoutAlgorithm.FRUCHTERMAN_REINGOLD]: [
+    { key: 'linkDistance', label: 'Ideal edge length', min: 10, max: 200, step: 5 },
+    { key: 'iterations', label: 'Iterations', min: 50, max: 1000, step: 50 },
+  ],
+  [LayoutAlgorithm.CIRCULAR]: [
+    { key: 'nodeSpacing', label: 'Node spacing', min: 4, max: 60, step: 2 },
+  ],
+  [LayoutAlgorithm.RADIAL]: [
+    { key: 'levelSpacing', label: 'Ring spacing', min: 20, max: 300, step: 10 },
+  ],
+  [LayoutAlgorithm.HIERARCHICAL]: [
+    { key: 'levelSpacing', label: 'Layer spacing', min: 20, max: 300, step: 10 },
+    { key: 'nodeSpacing', label: 'Node spacing', min: 4, max: 60, step: 2 },
+  ],
+};
+
+// Layout picker for the graph header, with a pop-over for the chosen algorithm's parameters
+const LayoutPanel: React.FC<LayoutPanelProps> = ({ options, onChange, frozen, onFrozenChange }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(options);
+
+  useEffect(() => setDraft(options), [options]);
+
+  const parameters = PARAMETERS[options.algorithm];
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      <select
+        value={options.algorithm}
+        disabled={frozen}
+        onChange={(e) => onChange({ ...draft, algorithm: e.target.value as LayoutAlgorithm })}
+        className="text-xs border border-slate-200 rounded px-2 py-1 bg-white disabled:opacity-50"
+      >
+        {Object.values(LayoutAlgorithm).map(algorithm => (
+          <option key={algorithm} value={algorithm}>{LAYOUT_ALGORITHM_LABELS[algorithm]}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => setOpen(!open)}
+        title="Layout parameters"
+        className={`p-1 rounded border transition ${open ? 'bg-blue-50 border-blue-200 text-blue-600' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+      >
+        <SlidersHorizontal size={14} />
+      </button>
+      <button
+        onClick={() => onFrozenChange(!frozen)}
+        title={frozen ? 'Unfreeze the layout' : 'Freeze positions (saved with the project)'}
+        className={`p-1 rounded border transition ${frozen ? 'bg-amber-50 border-amber-200 text-amber-600' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+      >
+        {frozen ? <Lock size={14} /> : <Unlock size={14} />}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-lg border border-slate-200 z-20 p-4 space-y-3">
+          <div className="text-xs font-bold text-slate-700">{LAYOUT_ALGORITHM_LABELS[options.algorithm]}</div>
+          {parameters.map(({ key, label, min, max, step }) => (
+            <div key={key}>
+              <div className="flex justify-between text-xs text-slate-500 mb-1">
+                <span>{label}</span>
+                <span className="font-mono">{step < 1 ? draft[key].toFixed(1) : draft[key]}</span>
+              </div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={draft[key]}
+                disabled={frozen}
+                onChange={(e) => setDraft({ ...draft, [key]: parseFloat(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </div>
+          ))}
+          {options.algorithm === LayoutAlgorithm.FORCE_ATLAS2 && (
+            <label className="flex items-center space-x-2 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.linLog}
+                disabled={frozen}
+                onChange={(e) => setDraft({ ...draft, linLog: e.target.checked })}
+                className="accent-blue-600"
+              />
+              <span>LinLog mode (tighter communities)</span>
+            </label>
+          )}
+          {options.algorithm === LayoutAlgorithm.RADIAL && (
+            <p className="text-xs text-slate-400">Centered on the selected account, or the top PageRank account when none is selected.</p>
+          )}
+          <button
+            onClick={() => onChange({ ...draft })}
+            disabled={frozen}
+            className="w-full flex items-center justify-center space-x-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition disabled:opacity-50"
+          >
+            <RefreshCw size={14} />
+            <span>{options.algorithm === LayoutAlgorithm.FORCE ? 'Apply' : 'Re-run layout'}</span>
+          </button>
+          {frozen && <p className="text-xs text-amber-600">Unfreeze to change the layout.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayoutPanel;
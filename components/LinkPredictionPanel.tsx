@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { GraphData, GraphMode, Node, LinkPredictor } from '../types';
+import {
+  predictLinks,
+  evaluateLinkPrediction,
+  PredictedLink,
+  LinkPredictionEvaluation,
+  LINK_PREDICTOR_LABELS,
+  DEFAULT_PREDICTION_LIMIT,
+  DEFAULT_HOLDOUT_FRACTION
+} from '../services/linkPrediction';
+
+interface LinkPredictionPanelProps {
+  data: GraphData;
+  mode: GraphMode;
+  seed: number;
+  selectedNode: Node | null;
+}
+
+const MAX_PREDICTION_LIMIT = 100;
+
+// "Who will follow whom next": top predicted ties, plus a holdout test to pick the scorer
+const LinkPredictionPanel: React.FC<LinkPredictionPanelProps> = ({ data, mode, seed, selectedNode }) => {
+  const [predictor, setPredictor] = useState<LinkPredictor>(LinkPredictor.ADAMIC_ADAR);
+  const [limit, setLimit] = useState(DEFAULT_PREDICTION_LIMIT);
+  const [forSelected, setForSelected] = useState(false);
+  const [predictions, setPredictions] = useState<{ predictor: LinkPredictor; nodeId?: string; links: PredictedLink[] } | null>(null);
+  const [fraction, setFraction] = useState(DEFAULT_HOLDOUT_FRACTION);
+  const [evaluation, setEvaluation] = useState<LinkPredictionEvaluation | null>(null);
+
+  useEffect(() => {
+    setPredictions(null);
+    setEvaluation(null);
+  }, [data]);
+
+  const labelOf = (id: string) => data.nodes.find(n => n.id === id)?.label || id;
+  const scope = forSelected && selectedNode ? selectedNode.id : undefined;
+
+  const predict = () => {
+    setPredictions({ predictor, nodeId: scope, links: predictLinks(data, predictor, mode, limit, scope) });
+  };
+
+  const bestAuc = evaluation ? Math.max(...evaluation.results.map(r => r.auc)) : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h3 className="text-sm font-bold text-slate-700 mb-4 flex items-center">
+        <Sparkles className="w-4 h-4 mr-2 text-amber-500" />
+        Link Prediction
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <select
+              value={predictor}
+              onChange={(e) => setPredictor(e.target.value as LinkPredictor)}
+              className="flex-1 min-w-0 text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-slate-50 text-slate-700"
+            >
+              {Object.values(LinkPredictor).map(p => (
+                <option key={p} value={p}>{LINK_PREDICTOR_LABELS[p]}</option>
+              ))}
+            </select>
+            <label className="text-xs text-slate-500">Top</label>
+            <input
+              type="number"
+              min={1}
+              max={MAX_PREDICTION_LIMIT}
+              value={limit}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                if (!Number.isNaN(value)) setLimit(Math.max(1, Math.min(MAX_PREDICTION_LIMIT, value)));
+              }}
+              className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-sm font-mono text-slate-700"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className={`flex items-center space-x-2 text-sm cursor-pointer ${selectedNode ? 'text-slate-700' : 'text-slate-400'}`}>
+              <input
+                type="checkbox"
+                checked={forSelected && !!selectedNode}
+                disabled={!selectedNode}
+                onChange={(e) => setForSelected(e.target.checked)}
+                className="accent-amber-500"
+              />
+              <span className="truncate">{selectedNode ? `Only ${selectedNode.label || selectedNode.id}` : 'Only the selected node'}</span>
+            </label>
+            <button
+              onClick={predict}
+              className="px-3 py-1.5 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-sm font-medium transition"
+            >
+              Predict
+            </button>
+          </div>
+
+          {predictions && (
+            <div className="max-h-64 overflow-y-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2">#</th>
+                    <th className="px-3 py-2">Predicted Tie</th>
+                    <th className="px-3 py-2 text-right">{LINK_PREDICTOR_LABELS[predictions.predictor]}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {predictions.links.map((l, i) => (
+                    <tr key={`${l.source}-${l.target}`} className="border-b border-slate-50 hover:bg-slate-50/50">
+                      <td className="px-3 py-1.5 text-slate-400 font-mono">{i + 1}</td>
+                      <td className="px-3 py-1.5 text-slate-700">{labelOf(l.source)} ↔ {labelOf(l.target)}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-600 font-mono">
+                        {predictions.predictor === LinkPredictor.COMMON_NEIGHBORS || predictions.predictor === LinkPredictor.PREFERENTIAL_ATTACHMENT
+                          ? l.score
+                          : l.score.toFixed(4)}
+                      </td>
+                    </tr>
+                  ))}
+                  {predictions.links.length === 0 && (
+                    <tr>
+                      <td colSpan={3} className="px-3 py-4 text-center text-slate-400 italic">
+                        No candidate pairs{predictions.nodeId ? ` for ${labelOf(predictions.nodeId)}` : ''} with a positive score
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <div className="flex justify-between text-xs text-slate-500 mb-1">
+              <span>Hidden ties (holdout)</span>
+              <span className="font-mono">{Math.round(fraction * 100)}%</span>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="range"
+                min={0.05}
+                max={0.5}
+                step={0.05}
+                value={fraction}
+                onChange={(e) => setFraction(parseFloat(e.target.value))}
+                className="flex-1 accent-amber-500"
+              />
+              <button
+                onClick={() => setEvaluation(evaluateLinkPrediction(data, mode, seed, fraction, limit))}
+                className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition"
+              >
+                Evaluate
+              </button>
+            </div>
+          </div>
+
+          {evaluation ? (
+            <>
+              <table className="w-full text-sm text-left">
+                <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-100">
+                  <tr>
+                    <th className="px-3 py-2">Scorer</th>
+                    <th className="px-3 py-2 text-right">AUC</th>
+                    <th className="px-3 py-2 text-right">P@{evaluation.k}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {evaluation.results.map(r => (
+                    <tr key={r.predictor} className="border-b border-slate-50">
+                      <td className={`px-3 py-1.5 ${r.auc === bestAuc ? 'font-bold text-amber-600' : 'text-slate-700'}`}>
+                        {LINK_PREDICTOR_LABELS[r.predictor]}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-slate-600 font-mono">{r.auc.toFixed(3)}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-600 font-mono">{r.precision.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-400">
+                {evaluation.hiddenEdges} ties hidden and scored against {evaluation.negatives} random non-ties. AUC 0.5 is chance level.
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-slate-400 italic">
+              Hide a random share of ties and check how well each scorer recovers them.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkPredictionPanel;
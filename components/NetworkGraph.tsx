@@ -1,32 +1,219 @@
-import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef } from 'react';
 import {
   select,
-  scaleOrdinal,
-  schemeTableau10,
   zoom as d3Zoom,
   zoomIdentity,
+  scaleSqrt,
+  extent,
+  max,
   forceSimulation,
   forceLink,
   forceManyBody,
   forceCenter,
   forceCollide,
-  drag as d3Drag
+  drag as d3Drag,
+  quadtree,
+  pointer,
+  timer,
+  easeCubicInOut
 } from 'd3';
-import { GraphData, Node, Link } from '../types';
+import type { BaseType, D3ZoomEvent, Quadtree, QuadtreeLeaf, Selection, Simulation, Timer, Transition, ZoomTransform } from 'd3';
+import { GraphData, Node, Link, CentralityMetric, LayoutAlgorithm, LayoutOptions } from '../types';
+import { createRng, DEFAULT_SEED } from '../services/random';
+import { getLinkWeight, getLinkNodeId } from '../services/graphIndex';
+import { CENTRALITY_METRIC_LABELS, formatCentrality } from '../services/centrality';
+import { EgoNetwork } from '../services/ego';
+import { CommunityGraph } from '../services/communityGraph';
+import { communityColor } from '../services/communityStats';
+import { DiffusionState } from '../services/diffusion';
+import { appearanceTimes } from '../services/temporal';
+import { DEFAULT_LAYOUT_OPTIONS, LayoutPosition } from '../services/layout';
+import { runLayout, ComputeJob } from '../services/computeClient';
 
 interface NetworkGraphProps {
   data: GraphData;
+  seed?: number;
+  weighted?: boolean;
+  directed?: boolean;
+  sizeMetric?: CentralityMetric;
+  highlightedPaths?: string[][]; // Node id sequences drawn on top of a dimmed graph
+  egoNetwork?: EgoNetwork | null; // Shown instead of the full graph while a node is selected
+  diffusionFrame?: Map<string, DiffusionState> | null; // Reached nodes at the current playback step
+  suggestedLinks?: { source: string; target: string }[]; // Proposed ties, previewed as dashed edges
+  timeCutoff?: number | null; // Hide links made, and accounts that joined, after this time
+  layout?: LayoutOptions;
+  communityGraph?: CommunityGraph | null; // Shown instead of the full graph in the community view
+  highlightedCommunity?: number | null; // Community whose members stay lit while the rest is dimmed
+  onCommunityClick?: (group: number | null) => void; // Expand a community, or collapse with null
+  layoutFrozen?: boolean; // Keep every node where it is; only drags move them
   onNodeClick: (node: Node | null) => void;
   selectedNode: Node | null;
 }
 
+const DIFFUSION_COLORS: Record<DiffusionState, string> = {
+  seed: '#7c3aed',
+  active: '#ef4444',
+  recovered: '#64748b',
+};
+const UNREACHED_COLOR = '#e2e8f0';
+const PATH_COLOR = '#f97316';
+const SUGGESTION_COLOR = '#10b981';
+const EGO_COLOR = '#1d4ed8';
+const HOVER_COLOR = '#3b82f6';
+const PIN_COLOR = '#334155';
+
+// Duration of fades and zooms when entering or leaving the ego view
+const VIEW_TRANSITION_MS = 750;
+
+// Graphs with more displayed nodes than this are drawn on a canvas instead of as SVG
+export const CANVAS_NODE_THRESHOLD = 1500;
+const MAX_NODE_RADIUS = 20;
+const MAX_COMMUNITY_RADIUS = 40;
+
+// How nodes and links look, kept apart from the scene so it can change without a rebuild
+interface SceneStyle {
+  linkWidth: (l: Link) => number;
+  isPathLink: ((l: Link) => boolean) | null; // Set while paths are highlighted
+  // Set while paths or a community are highlighted
+  linkDimmed: ((l: Link) => boolean) | null;
+  nodeDimmed: (d: Node) => boolean;
+  stroke: (d: Node) => string;
+  strokeWidth: (d: Node) => number;
+  suggestions: { source: Node; target: Node }[];
+}
+
+interface CanvasScene extends SceneStyle {
+  nodes: Node[];
+  links: Link[];
+  ends: Map<Link, [Node, Node]>; // Resolved even where no link force has replaced the ids
+  radius: (d: Node) => number;
+  fill: (d: Node) => string;
+  nodeHidden: (d: Node) => boolean;
+  linkHidden: (l: Link) => boolean;
+  hovered: Node | null;
+}
+
+// What a canvas drag holds on to: the node and where it was grabbed, in screen coordinates
+interface CanvasDragSubject {
+  node: Node;
+  x: number;
+  y: number;
+}
+
+// Canvas counterpart of the SVG drawing, in graph coordinates
+const drawScene = (context: CanvasRenderingContext2D, scene: CanvasScene) => {
+  const { isPathLink, linkDimmed } = scene;
+  const drawLinks = (links: Link[], stroke: string, alpha: number) => {
+    context.strokeStyle = stroke;
+    context.globalAlpha = alpha;
+    // Runs of equally wide links are stroked as one path
+    let width = NaN;
+    context.beginPath();
+    links.forEach(l => {
+      if (scene.linkHidden(l)) return;
+      const w = scene.linkWidth(l);
+      if (w !== width) {
+        context.stroke();
+        context.beginPath();
+        context.lineWidth = width = w;
+      }
+      const [source, target] = scene.ends.get(l)!;
+      context.moveTo(source.x!, source.y!);
+      context.lineTo(target.x!, target.y!);
+    });
+    context.stroke();
+  };
+  if (linkDimmed) {
+    drawLinks(scene.links.filter(linkDimmed), "#999", 0.15);
+    const lit = scene.links.filter(l => !linkDimmed(l));
+    if (isPathLink) drawLinks(lit, PATH_COLOR, 1);
+    else drawLinks(lit, "#999", 0.6);
+  } else {
+    drawLinks(scene.links, "#999", 0.6);
+  }
+
+  context.globalAlpha = 1;
+  context.strokeStyle = SUGGESTION_COLOR;
+  context.lineWidth = 2.5;
+  context.setLineDash([6, 4]);
+  context.beginPath();
+  scene.suggestions.forEach(({ source, target }) => {
+    context.moveTo(source.x!, source.y!);
+    context.lineTo(target.x!, target.y!);
+  });
+  context.stroke();
+  context.setLineDash([]);
+
+  scene.nodes.forEach(d => {
+    if (scene.nodeHidden(d)) return;
+    context.globalAlpha = scene.nodeDimmed(d) ? 0.2 : 1;
+    context.beginPath();
+    context.arc(d.x!, d.y!, scene.radius(d), 0, 2 * Math.PI);
+    context.fillStyle = scene.fill(d);
+    context.fill();
+    context.strokeStyle = d === scene.hovered ? HOVER_COLOR : scene.stroke(d);
+    context.lineWidth = d === scene.hovered ? 3 : scene.strokeWidth(d);
+    context.stroke();
+  });
+  context.globalAlpha = 1;
+};
+
+const isPinned = (d: Node) => d.fx != null && d.fy != null;
+
+// SVG elements entering the view start transparent; leaving ones fade out before removal
+const fadeIn = <E extends SVGElement, D>(enter: Selection<E, D, BaseType, unknown>) => enter.attr("opacity", 0);
+const fadeOut = <E extends SVGElement, D>(exit: Selection<E, D, BaseType, unknown>): Transition<E, D, BaseType, unknown> =>
+  exit.transition().duration(VIEW_TRANSITION_MS).attr("opacity", 0).remove();
+
+// Zoom that fits the given points into the view, no closer than 2x
+const fitTransform = (points: { x?: number; y?: number }[], width: number, height: number) => {
+  const [x0, x1] = extent(points, (d: { x?: number }) => d.x);
+  const [y0, y1] = extent(points, (d: { y?: number }) => d.y);
+  if (x0 === undefined || y0 === undefined) return zoomIdentity;
+  const k = Math.min(2, 0.8 / Math.max((x1 - x0) / width, (y1 - y0) / height, 1e-6));
+  return zoomIdentity.translate(width / 2, height / 2).scale(k).translate(-(x0 + x1) / 2, -(y0 + y1) / 2);
+};
+
 export interface NetworkGraphHandle {
     exportPNG: () => void;
 }
 
-const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data, onNodeClick, selectedNode }, ref) => {
+const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data, seed = DEFAULT_SEED, weighted = false, directed = true, sizeMetric = CentralityMetric.PAGERANK, highlightedPaths, egoNetwork, diffusionFrame, suggestedLinks, timeCutoff, layout = DEFAULT_LAYOUT_OPTIONS, layoutFrozen = false, communityGraph, highlightedCommunity = null, onCommunityClick, onNodeClick, selectedNode }, ref) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const simulationRef = useRef<Simulation<Node, Link> | null>(null);
+  // View state that outlives a render: zoom, the full-graph zoom saved while an
+  // ego view is open, and what the layout was centered on
+  const transformRef = useRef<ZoomTransform>(zoomIdentity);
+  const fullViewTransformRef = useRef<ZoomTransform | null>(null);
+  const egoIdRef = useRef<string | null>(null);
+  const layoutCenterRef = useRef<{ x: number; y: number } | null>(null);
+  const viewSizeRef = useRef<{ width: number; height: number } | null>(null);
+  const sizeMetricRef = useRef(sizeMetric);
+  const layoutRef = useRef(layout);
+  const frozenRef = useRef(layoutFrozen);
+  const focusRef = useRef<string | null>(null);
+  const placementRef = useRef<Timer | null>(null);
+  const layoutJobRef = useRef<ComputeJob<Map<string, LayoutPosition>> | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Playback frames only recolor nodes, so they're read through a ref instead of rebuilding the graph
+  const diffusionRef = useRef(diffusionFrame);
+  diffusionRef.current = diffusionFrame;
+  const paintDiffusionRef = useRef<(() => void) | null>(null);
+  // Timeline playback works the same way, toggling visibility only
+  const timeCutoffRef = useRef(timeCutoff);
+  timeCutoffRef.current = timeCutoff;
+  const applyTimeCutoffRef = useRef<(() => void) | null>(null);
+  // The view, layout and scene effects reach each other through these: moving the
+  // view, redrawing after nodes move or the style changes, and canvas hit-testing
+  const zoomToRef = useRef<((transform: ZoomTransform, animate: boolean) => void) | null>(null);
+  const tickRef = useRef<(() => void) | null>(null);
+  const repaintRef = useRef<(() => void) | null>(null);
+  const findNodeRef = useRef<((point: [number, number]) => Node | null) | null>(null);
+  const hoveredRef = useRef<Node | null>(null);
+  // Handlers are bound once, so they read the latest props from here
+  const propsRef = useRef({ data, selectedNode, egoNetwork, communityGraph, onNodeClick, onCommunityClick });
+  propsRef.current = { data, selectedNode, egoNetwork, communityGraph, onNodeClick, onCommunityClick };
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
@@ -34,18 +221,22 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data,
     y: number;
     content: Node | null;
   }>({ visible: false, x: 0, y: 0, content: null });
+  const [pinnedCount, setPinnedCount] = useState(0);
+  const [layoutProgress, setLayoutProgress] = useState<number | null>(null);
+
+  // The community and ego views draw only their own nodes
+  const displayNodes = communityGraph ? communityGraph.nodes : egoNetwork ? egoNetwork.nodes : data.nodes;
+  const displayLinks = communityGraph ? communityGraph.links : egoNetwork ? egoNetwork.links : data.links;
+  const useCanvas = displayNodes.length > CANVAS_NODE_THRESHOLD;
+  const egoId = egoNetwork?.egoId ?? null;
+  // The radial layout is centered on the selection
+  const focusId = layout.algorithm === LayoutAlgorithm.RADIAL ? selectedNode?.id ?? null : null;
 
   useImperativeHandle(ref, () => ({
     exportPNG: () => {
-        if (!svgRef.current || !containerRef.current) return;
-        
-        const svg = svgRef.current;
+        if (!containerRef.current) return;
         const { width, height } = containerRef.current.getBoundingClientRect();
         
-        // Serialize SVG
-        const serializer = new XMLSerializer();
-        const svgString = serializer.serializeToString(svg);
-        
         // Canvas setup
         const canvas = document.createElement('canvas');
         canvas.width = width * 2; // Retina scale
@@ -54,18 +245,13 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data,
         if (!ctx) return;
         ctx.scale(2, 2); // Scale context
 
-        // Create Image
-        const img = new Image();
-        const svgBlob = new Blob([svgString], {type: 'image/svg+xml;charset=utf-8'});
-        const url = URL.createObjectURL(svgBlob);
-        
-        img.onload = () => {
+        const download = (image: CanvasImageSource, done?: () => void) => {
             // Draw white background
             ctx.fillStyle = '#f8fafc'; // Matches bg-slate-50
             ctx.fillRect(0, 0, width, height);
             
             // Draw image
-            ctx.drawImage(img, 0, 0, width, height);
+            ctx.drawImage(image, 0, 0, width, height);
             
             // Trigger download
             const pngUrl = canvas.toDataURL('image/png');
@@ -75,9 +261,26 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data,
             document.body.appendChild(link);
             link.click();
             document.body.removeChild(link);
-            
-            URL.revokeObjectURL(url);
+            done?.();
         };
+
+        // The canvas renderer's output can be copied as-is
+        if (canvasRef.current) {
+            download(canvasRef.current);
+            return;
+        }
+        if (!svgRef.current) return;
+
+        // Serialize SVG
+        const serializer = new XMLSerializer();
+        const svgString = serializer.serializeToString(svgRef.current);
+
+        // Create Image
+        const img = new Image();
+        const svgBlob = new Blob([svgString], {type: 'image/svg+xml;charset=utf-8'});
+        const url = URL.createObjectURL(svgBlob);
+        
+        img.onload = () => download(img, () => URL.revokeObjectURL(url));
         img.src = url;
     }
   }));
@@ -96,157 +299,621 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data,
     return () => window.removeEventListener('resize', updateDims);
   }, []);
 
-  useEffect(() => {
-    if (!data.nodes.length || !svgRef.current) return;
+  const cancelLayout = () => {
+    layoutJobRef.current?.cancel();
+    layoutJobRef.current = null;
+    setLayoutProgress(null);
+  };
 
-    // Filter data if a node is selected (Ego-Net)
-    let displayNodes = data.nodes;
-    let displayLinks = data.links;
+  // The simulation lives as long as the graph, so selections and resizes keep the layout
+  useEffect(() => () => {
+    simulationRef.current?.stop();
+    simulationRef.current = null;
+    placementRef.current?.stop();
+    cancelLayout();
+  }, [data, seed]);
 
-    if (selectedNode) {
-        const neighborIds = new Set<string>();
-        neighborIds.add(selectedNode.id);
-        
-        data.links.forEach(l => {
-            const sId = typeof l.source === 'object' ? (l.source as Node).id : l.source as string;
-            const tId = typeof l.target === 'object' ? (l.target as Node).id : l.target as string;
-            
-            if (sId === selectedNode.id) neighborIds.add(tId);
-            if (tId === selectedNode.id) neighborIds.add(sId);
+  useEffect(() => setPinnedCount(data.nodes.filter(isPinned).length), [data]);
+
+  // Selection, pinning, dragging and the tooltip only touch refs and state setters
+  const interactions = useMemo(() => {
+    const countPins = () => setPinnedCount(propsRef.current.data.nodes.filter(isPinned).length);
+    return {
+      toggleSelection: (d: Node) => {
+        const { communityGraph, selectedNode, onNodeClick, onCommunityClick } = propsRef.current;
+        if (communityGraph?.sizes.has(d.id)) onCommunityClick?.(d.group ?? 0);
+        else onNodeClick(d === selectedNode ? null : d);
+      },
+      unpin: (d: Node) => {
+        d.fx = null;
+        d.fy = null;
+        countPins();
+        const simulation = simulationRef.current;
+        simulation?.alpha(Math.max(simulation.alpha(), 0.1)).restart();
+      },
+      dragStarted: (active: boolean, d: Node) => {
+        if (!active) simulationRef.current?.alphaTarget(0.3).restart();
+        d.fx = d.x;
+        d.fy = d.y;
+      },
+      dragged: (d: Node, x: number, y: number) => {
+        d.fx = x;
+        d.fy = y;
+      },
+      // Dragged nodes stay pinned where they were dropped
+      dragEnded: (active: boolean) => {
+        if (!active) simulationRef.current?.alphaTarget(0);
+        countPins();
+      },
+      showTooltip: (event: MouseEvent, d: Node) => setTooltip({ visible: true, x: event.clientX, y: event.clientY, content: d }),
+      moveTooltip: (event: MouseEvent) => setTooltip(prev => ({ ...prev, x: event.clientX, y: event.clientY })),
+      hideTooltip: () => setTooltip(prev => ({ ...prev, visible: false })),
+    };
+  }, []);
+
+  // Node radius follows the chosen metric, scaled over the whole graph so the
+  // ego view keeps the same sizes
+  const nodeRadius = useMemo(() => {
+    const maxSize = max(data.nodes, (n: Node) => n[sizeMetric]) || 0;
+    const sizeScale = scaleSqrt().domain([0, maxSize]).range([5, MAX_NODE_RADIUS]);
+    const metricRadius = maxSize > 0
+      ? (d: Node) => sizeScale(d[sizeMetric])
+      : () => 5;
+    // Community super-nodes are sized by membership instead
+    const communitySizes = communityGraph?.sizes ?? new Map<string, number>();
+    const communityScale = scaleSqrt()
+      .domain([0, max(Array.from(communitySizes.values())) || 1])
+      .range([8, MAX_COMMUNITY_RADIUS]);
+    return (d: Node) => communitySizes.has(d.id) ? communityScale(communitySizes.get(d.id)!) : metricRadius(d);
+  }, [data, sizeMetric, communityGraph]);
+
+  // Links of the full graph keep their index as a key, so the SVG join can tell them apart
+  const linkKeys = useMemo(() => new Map<Link, string>(data.links.map((l, i) => [l, String(i)])), [data]);
+
+  const style = useMemo<SceneStyle>(() => {
+    // Nodes and hops on the highlighted paths; undirected hops match either link direction
+    const pathNodes = new Set<string>((highlightedPaths ?? []).flat());
+    const pathHops = new Set<string>();
+    (highlightedPaths ?? []).forEach(path => path.slice(1).forEach((id, i) => pathHops.add(`${path[i]}\u0000${id}`)));
+    const hasPaths = pathNodes.size > 0;
+    const isPathLink = (l: Link) => {
+      const sId = getLinkNodeId(l.source);
+      const tId = getLinkNodeId(l.target);
+      return pathHops.has(`${sId}\u0000${tId}`) || (!directed && pathHops.has(`${tId}\u0000${sId}`));
+    };
+
+    // Link stroke width follows edge weight when weights are in use, and the
+    // number of follows behind each link of the community view
+    const linkWeight = (l: Link) => linkKeys.has(l) ? getLinkWeight(l, weighted) : l.value ?? 1;
+    const [minWeight = 1, maxWeight = 1] = extent(communityGraph ? displayLinks : data.links, linkWeight);
+    const weightScale = minWeight === maxWeight
+      ? () => 1.5
+      : scaleSqrt().domain([minWeight, maxWeight]).range([0.75, 6]);
+
+    // Suggested ties between nodes that are both on screen
+    const nodeById = new Map<string, Node>(displayNodes.map(n => [n.id, n]));
+    const suggestions = (suggestedLinks ?? [])
+      .filter(l => nodeById.has(l.source) && nodeById.has(l.target))
+      .map(l => ({ source: nodeById.get(l.source)!, target: nodeById.get(l.target)! }));
+
+    // Highlighted paths take precedence; otherwise a highlighted community keeps
+    // its members and the links among them lit
+    const inCommunity = (id: string) => (nodeById.get(id)?.group ?? 0) === highlightedCommunity;
+    const isEgo = (d: Node) => d.id === egoId;
+
+    return {
+      linkWidth: (l: Link) => hasPaths && isPathLink(l) ? 3.5 : weightScale(linkWeight(l)),
+      isPathLink: hasPaths ? isPathLink : null,
+      linkDimmed: hasPaths
+        ? (l: Link) => !isPathLink(l)
+        : highlightedCommunity !== null
+          ? (l: Link) => !inCommunity(getLinkNodeId(l.source)) || !inCommunity(getLinkNodeId(l.target))
+          : null,
+      nodeDimmed: (d: Node) => hasPaths
+        ? !pathNodes.has(d.id)
+        : highlightedCommunity !== null && (d.group ?? 0) !== highlightedCommunity,
+      stroke: (d: Node) => isEgo(d) ? EGO_COLOR : isPinned(d) ? PIN_COLOR : "#fff",
+      strokeWidth: (d: Node) => isEgo(d) ? 3 : isPinned(d) ? 2.5 : 1.5,
+      suggestions,
+    };
+    // pinnedCount changes the pin outlines drawn by stroke
+  }, [data, displayNodes, displayLinks, linkKeys, communityGraph, egoId, weighted, directed, highlightedPaths, suggestedLinks, highlightedCommunity, pinnedCount]);
+  const styleRef = useRef(style);
+  styleRef.current = style;
+
+  // Zoom, pan, the background double click and the canvas's pointer handling,
+  // bound once per renderer
+  useEffect(() => {
+    const element: Element | null = useCanvas ? canvasRef.current : svgRef.current;
+    if (!element) return;
+    const selection = select(element);
+
+    // SVG layers are kept between renders so nodes entering or leaving the view can fade
+    let viewport: Selection<SVGGElement, unknown, null, undefined> | null = null;
+    if (!useCanvas) {
+      const svg = select(svgRef.current!);
+      viewport = svg.select<SVGGElement>("g.viewport");
+      if (viewport.empty()) {
+        viewport = svg.append("g").attr("class", "viewport");
+        viewport.append("g").attr("class", "links").attr("stroke", "#999").attr("stroke-opacity", 0.6);
+        viewport.append("g").attr("class", "suggestions")
+          .attr("stroke", SUGGESTION_COLOR)
+          .attr("stroke-width", 2.5)
+          .attr("stroke-dasharray", "6 4");
+        viewport.append("g").attr("class", "nodes").attr("stroke", "#fff").attr("stroke-width", 1.5);
+      }
+    } else {
+      // The canvas has no per-node elements, so nodes are found by hit-testing.
+      // Dragging is bound before zooming so a drag on a node doesn't pan.
+      const canvas = canvasRef.current!;
+      const findNode = (event: MouseEvent) => findNodeRef.current?.(pointer(event, canvas)) ?? null;
+      select(canvas)
+        .call(d3Drag<HTMLCanvasElement, unknown, CanvasDragSubject>()
+          .container(canvas)
+          .subject(event => {
+            const d = findNodeRef.current?.([event.x, event.y]);
+            const transform = transformRef.current;
+            return d ? { node: d, x: transform.applyX(d.x!), y: transform.applyY(d.y!) } : null;
+          })
+          .on("start", event => interactions.dragStarted(event.active > 0, event.subject.node))
+          .on("drag", event => {
+            const transform = transformRef.current;
+            interactions.dragged(event.subject.node, transform.invertX(event.x), transform.invertY(event.y));
+          })
+          .on("end", event => interactions.dragEnded(event.active > 0))
+        )
+        .on("click", (event: MouseEvent) => {
+          const d = findNode(event);
+          if (d) interactions.toggleSelection(d);
+        })
+        .on("contextmenu", (event: MouseEvent) => {
+          const d = findNode(event);
+          if (!d || !isPinned(d)) return;
+          event.preventDefault();
+          interactions.unpin(d);
+        })
+        .on("mousemove", (event: MouseEvent) => {
+          const d = findNode(event);
+          if (d !== hoveredRef.current) {
+            hoveredRef.current = d;
+            canvas.style.cursor = d ? "pointer" : "default";
+            if (d) interactions.showTooltip(event, d);
+            else interactions.hideTooltip();
+            repaintRef.current?.();
+          } else if (d) {
+            interactions.moveTooltip(event);
+          }
+        })
+        .on("mouseleave", () => {
+          hoveredRef.current = null;
+          interactions.hideTooltip();
+          repaintRef.current?.();
         });
+    }
+
+    const zoomBehavior = d3Zoom<Element, unknown>()
+      .scaleExtent([0.1, 4])
+      .on("zoom", (event: D3ZoomEvent<Element, unknown>) => {
+        transformRef.current = event.transform;
+        if (viewport) viewport.attr("transform", event.transform.toString());
+        else repaintRef.current?.();
+      });
+    selection.call(zoomBehavior).call(zoomBehavior.transform, transformRef.current);
+    if (useCanvas) selection.on("dblclick.zoom", null);
 
-        displayNodes = data.nodes.filter(n => neighborIds.has(n.id));
-        displayLinks = data.links.filter(l => {
-             const sId = typeof l.source === 'object' ? (l.source as Node).id : l.source as string;
-             const tId = typeof l.target === 'object' ? (l.target as Node).id : l.target as string;
-             return neighborIds.has(sId) && neighborIds.has(tId);
+    const zoomTo = (transform: ZoomTransform, animate: boolean) => {
+      if (animate) selection.transition().duration(VIEW_TRANSITION_MS).call(zoomBehavior.transform, transform);
+      else selection.interrupt().call(zoomBehavior.transform, transform);
+    };
+    zoomToRef.current = zoomTo;
+
+    // Double click on the background leaves the ego view, or resets the zoom
+    selection.on("dblclick", () => {
+      const { egoNetwork, onNodeClick } = propsRef.current;
+      if (egoNetwork) onNodeClick(null);
+      else zoomTo(zoomIdentity, true);
+    });
+
+    return () => {
+      zoomToRef.current = null;
+      selection.interrupt().on(".zoom .drag click contextmenu mousemove mouseleave dblclick", null);
+    };
+  }, [useCanvas, interactions]);
+
+  // Layout: the simulation's forces, static placement and the view transitions they cause
+  useEffect(() => {
+    if (!data.nodes.length) return;
+    const { width, height } = dimensions;
+    const setView = (transform: ZoomTransform) => {
+      transformRef.current = transform;
+      zoomToRef.current?.(transform, false);
+    };
+
+    // Simulation; nodes that all have positions (e.g. an opened project) are drawn
+    // as-is instead of being re-laid out. It runs live only for the force layout;
+    // otherwise it just carries drags.
+    const isStatic = layout.algorithm !== LayoutAlgorithm.FORCE;
+    const live = !isStatic && !layoutFrozen;
+    let simulation = simulationRef.current;
+    const created = !simulation;
+    const hasLayout = displayNodes.every(n => Number.isFinite(n.x) && Number.isFinite(n.y));
+    if (!simulation) {
+      simulation = forceSimulation<Node, Link>()
+        .alpha(hasLayout || !live ? 0 : 1)
+        .randomSource(createRng(seed, 'layout'))
+        .on("tick", () => tickRef.current?.());
+      simulationRef.current = simulation;
+      layoutCenterRef.current = { x: width / 2, y: height / 2 };
+      if (!hasLayout) setView(zoomIdentity);
+    } else if (live && (layoutRef.current !== layout || frozenRef.current)) {
+      simulation.alpha(0.5).restart();
+    } else if (live && simulation.nodes() !== displayNodes) {
+      simulation.alpha(0.3).restart();
+    } else if (live && sizeMetricRef.current !== sizeMetric) {
+      simulation.alpha(Math.max(simulation.alpha(), 0.1)).restart();
+    }
+    const layoutChanged = !created && layoutRef.current !== layout;
+    sizeMetricRef.current = sizeMetric;
+    layoutRef.current = layout;
+    frozenRef.current = layoutFrozen;
+    // The ego view isn't pulled to the center, so its members settle where they already are
+    const center = layoutCenterRef.current!;
+    simulation.nodes(displayNodes);
+    if (live) {
+      simulation
+        .force("link", forceLink<Node, Link>(displayLinks).id(d => d.id).distance(layout.linkDistance))
+        .force("charge", forceManyBody<Node>().strength(layout.charge))
+        .force("center", egoNetwork ? null : forceCenter<Node>(center.x, center.y))
+        .force("collide", forceCollide<Node>().radius(d => nodeRadius(d) + 1));
+    } else {
+      simulation.force("link", null).force("charge", null).force("center", null).force("collide", null).stop();
+      displayNodes.forEach(d => { d.vx = 0; d.vy = 0; });
+    }
+
+    // A resize shifts the view rather than the layout, keeping the drawing centered
+    const previousSize = viewSizeRef.current;
+    if (previousSize && (previousSize.width !== width || previousSize.height !== height)) {
+      const shift = (t: ZoomTransform) => zoomIdentity.translate(t.x + (width - previousSize.width) / 2, t.y + (height - previousSize.height) / 2).scale(t.k);
+      if (fullViewTransformRef.current) fullViewTransformRef.current = shift(fullViewTransformRef.current);
+      setView(shift(transformRef.current));
+    }
+    viewSizeRef.current = { width, height };
+
+    // Entering an ego view zooms onto its members; leaving it returns to the saved view
+    let viewTransition: ZoomTransform | null = null;
+    if (egoId !== egoIdRef.current) {
+      if (egoNetwork) {
+        if (!egoIdRef.current) fullViewTransformRef.current = transformRef.current;
+        viewTransition = fitTransform(egoNetwork.nodes, width, height);
+      } else {
+        viewTransition = fullViewTransformRef.current ?? zoomIdentity;
+        fullViewTransformRef.current = null;
+      }
+      egoIdRef.current = egoId;
+    }
+
+    // Static layouts are placed when chosen, when a new graph has no positions yet,
+    // and for the radial layout whenever the selection moves. They're computed in a
+    // worker; once done, nodes glide to their new positions and the view zooms to fit them.
+    const focusChanged = layout.algorithm === LayoutAlgorithm.RADIAL && focusRef.current !== focusId;
+    focusRef.current = focusId;
+    if (!isStatic || layoutFrozen) cancelLayout();
+    if (isStatic && !layoutFrozen && (layoutChanged || focusChanged || (created && !hasLayout))) {
+      cancelLayout();
+      setLayoutProgress(0);
+      const job = runLayout(data, layout, { directed, weighted }, seed, focusId, setLayoutProgress);
+      layoutJobRef.current = job;
+      job.promise
+        .then(positions => {
+          if (!positions || layoutJobRef.current !== job) return;
+          place(positions);
+        })
+        .catch(error => {
+          if (layoutJobRef.current === job) console.error("Layout Error:", error);
+        })
+        .finally(() => {
+          if (layoutJobRef.current !== job) return;
+          layoutJobRef.current = null;
+          setLayoutProgress(null);
         });
     }
 
-    const svg = select(svgRef.current);
-    svg.selectAll("*").remove(); // Clear previous
+    function place(positions: Map<string, LayoutPosition>) {
+      const move = (d: Node, x1: number, y1: number) =>
+        ({ d, x0: Number.isFinite(d.x) ? d.x! : x1, y0: Number.isFinite(d.y) ? d.y! : y1, x1, y1 });
+      const moves = data.nodes.map(d => {
+        const target = positions.get(d.id)!;
+        return move(d, center.x + target.x, center.y + target.y);
+      });
 
-    const width = dimensions.width;
-    const height = dimensions.height;
+      // Collapsed communities move to the centroid of their members' new positions
+      const { communityGraph, egoNetwork } = propsRef.current;
+      if (communityGraph) {
+        const sums = new Map<number, { x: number; y: number; count: number }>();
+        moves.forEach(({ d, x1, y1 }) => {
+          const sum = sums.get(d.group ?? 0) ?? { x: 0, y: 0, count: 0 };
+          sums.set(d.group ?? 0, { x: sum.x + x1, y: sum.y + y1, count: sum.count + 1 });
+        });
+        communityGraph.nodes.forEach(d => {
+          const sum = sums.get(d.group ?? 0);
+          if (communityGraph.sizes.has(d.id) && sum) moves.push(move(d, sum.x / sum.count, sum.y / sum.count));
+        });
+      }
 
-    // Color scale for communities
-    const color = scaleOrdinal(schemeTableau10);
+      // Fit whatever is on screen by the time the layout arrives
+      const shown = new Set(communityGraph?.nodes ?? egoNetwork?.nodes ?? data.nodes);
+      const view = viewSizeRef.current!;
+      zoomToRef.current?.(fitTransform(moves.filter(m => shown.has(m.d)).map(m => ({ x: m.x1, y: m.y1 })), view.width, view.height), true);
 
-    // Zoom behavior
-    const g = svg.append("g");
-    const zoomBehavior = d3Zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
-      .on("zoom", (event) => {
-        g.attr("transform", event.transform);
+      placementRef.current?.stop();
+      const placement = timer(elapsed => {
+        const t = easeCubicInOut(Math.min(1, elapsed / VIEW_TRANSITION_MS));
+        moves.forEach(({ d, x0, y0, x1, y1 }) => {
+          d.x = x0 + (x1 - x0) * t;
+          d.y = y0 + (y1 - y0) * t;
+          if (isPinned(d)) {
+            d.fx = d.x;
+            d.fy = d.y;
+          }
+        });
+        tickRef.current?.();
+        if (t >= 1) placement.stop();
       });
-    svg.call(zoomBehavior);
+      placementRef.current = placement;
+    }
+
+    if (viewTransition) zoomToRef.current?.(viewTransition, true);
+  }, [data, seed, displayNodes, displayLinks, dimensions, sizeMetric, nodeRadius, layout, layoutFrozen, egoNetwork, egoId, focusId, directed, weighted]);
+
+  // Scene: the drawn nodes and links, rebuilt only when what is shown changes
+  useEffect(() => {
+    if (!data.nodes.length) return;
+    const { width, height } = dimensions;
+
+    // Link endpoints come from the displayed nodes, so links are drawn even where no
+    // link force has replaced their ids with nodes (static layouts)
+    const nodeById = new Map<string, Node>(displayNodes.map(n => [n.id, n]));
+    const linkEnds = new Map<Link, [Node, Node]>(displayLinks.map(l => [
+      l,
+      [nodeById.get(getLinkNodeId(l.source))!, nodeById.get(getLinkNodeId(l.target))!]
+    ]));
+
+    // Community colors, or diffusion states while a simulation is being played back
+    const nodeFill = (d: Node) => {
+      const frame = diffusionRef.current;
+      if (!frame) return communityColor(d.group);
+      const state = frame.get(d.id);
+      return state ? DIFFUSION_COLORS[state] : UNREACHED_COLOR;
+    };
 
-    // Simulation
-    const simulation = forceSimulation(displayNodes as any)
-      .force("link", forceLink(displayLinks).id((d: any) => d.id).distance(50))
-      .force("charge", forceManyBody().strength(-200))
-      .force("center", forceCenter(width / 2, height / 2))
-      .force("collide", forceCollide().radius((d: any) => Math.sqrt(d.pagerank || 0.01) * 20 + 5));
+    // Timeline playback hides links made, and accounts that joined, after the cutoff
+    const appeared = appearanceTimes(data);
+    const isLater = (time: number | undefined) => {
+      const cutoff = timeCutoffRef.current;
+      return cutoff !== null && cutoff !== undefined && time !== undefined && time > cutoff;
+    };
+    const linkHidden = (l: Link) => isLater(l.timestamp);
+    const nodeHidden = (d: Node) => isLater(appeared.get(d.id));
+
+    if (useCanvas) {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      const context = canvas.getContext("2d")!;
+      const ratio = window.devicePixelRatio || 1;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+
+      const draw = () => {
+        const transform = transformRef.current;
+        context.setTransform(ratio, 0, 0, ratio, 0, 0);
+        context.clearRect(0, 0, width, height);
+        context.translate(transform.x, transform.y);
+        context.scale(transform.k, transform.k);
+        drawScene(context, {
+          ...styleRef.current,
+          nodes: displayNodes,
+          links: displayLinks,
+          ends: linkEnds,
+          radius: nodeRadius,
+          fill: nodeFill,
+          nodeHidden,
+          linkHidden,
+          hovered: hoveredRef.current,
+        });
+      };
+      // Ticks, zooms and hover changes are batched into the next animation frame
+      let frame = 0;
+      const requestDraw = () => {
+        if (!frame) frame = requestAnimationFrame(() => { frame = 0; draw(); });
+      };
 
+      // Hit-testing through a quadtree of the visible nodes, rebuilt after they move.
+      // Every node whose own circle holds the point is a candidate, and the one drawn
+      // last wins, since that's the one on top.
+      const drawOrder = new Map<Node, number>(displayNodes.map((d, i) => [d, i]));
+      const maxRadius = max(displayNodes, nodeRadius) ?? 0;
+      let tree: Quadtree<Node> | null = null;
+      findNodeRef.current = (clientPoint) => {
+        if (!tree) tree = quadtree<Node>().x(d => d.x!).y(d => d.y!).addAll(displayNodes.filter(d => !nodeHidden(d)));
+        const [x, y] = transformRef.current.invert(clientPoint);
+        let hit: Node | null = null;
+        tree.visit((quad, x0, y0, x1, y1) => {
+          if (!('length' in quad)) {
+            for (let leaf: QuadtreeLeaf<Node> | undefined = quad; leaf; leaf = leaf.next) {
+              const d = leaf.data;
+              if (Math.hypot(d.x! - x, d.y! - y) <= nodeRadius(d) && (!hit || drawOrder.get(d)! > drawOrder.get(hit)!)) hit = d;
+            }
+          }
+          return x0 > x + maxRadius || x1 < x - maxRadius || y0 > y + maxRadius || y1 < y - maxRadius;
+        });
+        return hit;
+      };
+
+      tickRef.current = () => {
+        tree = null;
+        requestDraw();
+      };
+      repaintRef.current = requestDraw;
+      paintDiffusionRef.current = requestDraw;
+      applyTimeCutoffRef.current = () => {
+        tree = null;
+        requestDraw();
+      };
+      draw();
+
+      return () => {
+        cancelAnimationFrame(frame);
+        tickRef.current = repaintRef.current = paintDiffusionRef.current = applyTimeCutoffRef.current = null;
+        findNodeRef.current = null;
+      };
+    }
+
+    const g = select(svgRef.current).select<SVGGElement>("g.viewport");
+    if (g.empty()) return;
     // Draw Links
-    const link = g.append("g")
-      .attr("stroke", "#999")
-      .attr("stroke-opacity", 0.6)
-      .selectAll("line")
-      .data(displayLinks)
-      .join("line")
-      .attr("stroke-width", 1.5); // Simplified width
+    const link = g.select(".links")
+      .selectAll<SVGLineElement, Link>("line")
+      .data(displayLinks, d => linkKeys.get(d) ?? `${getLinkNodeId(d.source)}\u0000${getLinkNodeId(d.target)}`)
+      .join(enter => fadeIn(enter.append("line")), update => update, fadeOut);
+    link.transition().duration(VIEW_TRANSITION_MS).attr("opacity", 1);
+    let suggestion = g.select(".suggestions").selectAll<SVGLineElement, SceneStyle['suggestions'][number]>("line");
 
     // Draw Nodes
-    // Scale node radius by PageRank
-    const nodeRadius = (d: Node) => Math.max(5, Math.sqrt(d.pagerank) * 50);
-
-    const node = g.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(displayNodes)
-      .join("circle")
-      .attr("r", (d: any) => nodeRadius(d))
-      .attr("fill", (d: any) => color(d.group?.toString() || "0"))
+    const node = g.select(".nodes")
+      .selectAll<SVGCircleElement, Node>("circle")
+      .data(displayNodes, d => d.id)
+      .join(enter => fadeIn(enter.append("circle")), update => update, fadeOut)
+      .attr("r", nodeRadius)
       .attr("cursor", "pointer")
-      .on("click", (event, d) => {
+      .on("click", (event: MouseEvent, d) => {
         event.stopPropagation();
-        onNodeClick(d === selectedNode ? null : d);
+        interactions.toggleSelection(d);
       })
-      .on("mouseover", (event, d) => {
-        setTooltip({
-            visible: true,
-            x: event.clientX,
-            y: event.clientY,
-            content: d
-        });
-        select(event.currentTarget).attr("stroke", "#3b82f6").attr("stroke-width", 3);
+      .on("contextmenu", (event: MouseEvent, d) => {
+        if (!isPinned(d)) return;
+        event.preventDefault();
+        interactions.unpin(d);
       })
-      .on("mousemove", (event) => {
-        setTooltip(prev => ({
-            ...prev,
-            x: event.clientX,
-            y: event.clientY
-        }));
+      .on("mouseover", (event: MouseEvent, d) => {
+        interactions.showTooltip(event, d);
+        select(event.currentTarget as SVGCircleElement).attr("stroke", HOVER_COLOR).attr("stroke-width", 3);
       })
-      .on("mouseout", (event) => {
-        setTooltip(prev => ({ ...prev, visible: false }));
-        select(event.currentTarget).attr("stroke", "#fff").attr("stroke-width", 1.5);
+      .on("mousemove", interactions.moveTooltip)
+      .on("mouseout", (event: MouseEvent, d) => {
+        interactions.hideTooltip();
+        select(event.currentTarget as SVGCircleElement).attr("stroke", styleRef.current.stroke(d)).attr("stroke-width", styleRef.current.strokeWidth(d));
       })
-      .call(d3Drag<any, any>()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended)
+      .call(d3Drag<SVGCircleElement, Node>()
+        .on("start", (event, d) => interactions.dragStarted(event.active > 0, d))
+        .on("drag", (event, d) => interactions.dragged(d, event.x, event.y))
+        .on("end", event => interactions.dragEnded(event.active > 0))
       );
 
     // Ticks
-    simulation.on("tick", () => {
+    const ticked = () => {
       link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
+        .attr("x1", l => linkEnds.get(l)![0].x!)
+        .attr("y1", l => linkEnds.get(l)![0].y!)
+        .attr("x2", l => linkEnds.get(l)![1].x!)
+        .attr("y2", l => linkEnds.get(l)![1].y!);
+
+      suggestion
+        .attr("x1", l => l.source.x!)
+        .attr("y1", l => l.source.y!)
+        .attr("x2", l => l.target.x!)
+        .attr("y2", l => l.target.y!);
 
       node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-    });
+        .attr("cx", d => d.x!)
+        .attr("cy", d => d.y!);
+    };
 
-    function dragstarted(event: any, d: any) {
-      if (!event.active) simulation.alphaTarget(0.3).restart();
-      d.fx = d.x;
-      d.fy = d.y;
-    }
+    const restyle = () => {
+      const { linkWidth, isPathLink, linkDimmed, nodeDimmed, stroke, strokeWidth, suggestions } = styleRef.current;
+      link
+        .attr("stroke-width", linkWidth)
+        .attr("stroke", l => isPathLink?.(l) ? PATH_COLOR : null)
+        .attr("stroke-opacity", l => linkDimmed?.(l) ? 0.15 : isPathLink ? 1 : null);
+      if (isPathLink) link.filter(isPathLink).raise();
+      suggestion = suggestion.data(suggestions).join("line");
+      node
+        .attr("stroke", stroke)
+        .attr("stroke-width", strokeWidth)
+        .transition().duration(VIEW_TRANSITION_MS).attr("opacity", d => nodeDimmed(d) ? 0.2 : 1);
+      ticked();
+    };
+    restyle();
 
-    function dragged(event: any, d: any) {
-      d.fx = event.x;
-      d.fy = event.y;
-    }
+    const paintNodes = () => node.attr("fill", nodeFill);
+    paintNodes();
 
-    function dragended(event: any, d: any) {
-      if (!event.active) simulation.alphaTarget(0);
-      d.fx = null;
-      d.fy = null;
-    }
+    const applyTimeCutoff = () => {
+      link.attr("display", l => linkHidden(l) ? "none" : null);
+      node.attr("display", d => nodeHidden(d) ? "none" : null);
+    };
+    applyTimeCutoff();
 
-    // Reset zoom on double click background
-    svg.on("dblclick", () => {
-        onNodeClick(null);
-        svg.transition().duration(750).call(zoomBehavior.transform, zoomIdentity);
-    });
+    tickRef.current = ticked;
+    repaintRef.current = restyle;
+    paintDiffusionRef.current = paintNodes;
+    applyTimeCutoffRef.current = applyTimeCutoff;
+    return () => {
+      tickRef.current = repaintRef.current = paintDiffusionRef.current = applyTimeCutoffRef.current = null;
+    };
+  }, [data, displayNodes, displayLinks, linkKeys, nodeRadius, dimensions, useCanvas, interactions]);
+
+  // Highlights, suggestions and pins restyle the current scene in place
+  useEffect(() => repaintRef.current?.(), [style]);
 
-  }, [data, dimensions, selectedNode, onNodeClick]);
+  useEffect(() => paintDiffusionRef.current?.(), [diffusionFrame]);
+
+  useEffect(() => applyTimeCutoffRef.current?.(), [timeCutoff]);
 
   return (
     <div ref={containerRef} className="w-full h-full min-h-[500px] bg-slate-50 rounded-xl shadow-inner border border-slate-200 overflow-hidden relative">
-        {selectedNode && (
+        {selectedNode && !communityGraph && (
             <div className="absolute top-4 left-4 bg-white/90 backdrop-blur p-2 rounded shadow border border-blue-200 z-10 text-xs">
-                <span className="font-bold text-blue-700">Ego-Net Active:</span> viewing {selectedNode.id}
+                <span className="font-bold text-blue-700">Ego-Net Active:</span> viewing {selectedNode.label || selectedNode.id}
+                {egoNetwork && <span className="text-slate-500"> · {egoNetwork.nodes.length} accounts</span>}
                 <button onClick={() => onNodeClick(null)} className="ml-2 text-red-500 hover:underline">Reset</button>
             </div>
         )}
-      <svg ref={svgRef} className="w-full h-full" />
+        {communityGraph && (
+            <div className="absolute top-4 left-4 bg-white/90 backdrop-blur p-2 rounded shadow border border-indigo-200 z-10 text-xs">
+                <span className="font-bold text-indigo-700">Community View:</span> {communityGraph.sizes.size} communities
+                {communityGraph.expanded !== null ? (
+                    <>
+                        <span className="text-slate-500"> · Community {communityGraph.expanded} expanded</span>
+                        <button onClick={() => onCommunityClick?.(null)} className="ml-2 text-red-500 hover:underline">Collapse</button>
+                    </>
+                ) : (
+                    <span className="text-slate-500"> · click one to expand it</span>
+                )}
+            </div>
+        )}
+        {layoutProgress !== null && (
+            <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur p-2 rounded shadow border border-slate-200 z-10 text-xs text-slate-600">
+                Computing layout… {Math.round(layoutProgress * 100)}%
+            </div>
+        )}
+        {pinnedCount > 0 && (
+            <div className="absolute top-4 right-4 bg-white/90 backdrop-blur p-2 rounded shadow border border-slate-200 z-10 text-xs text-slate-600">
+                {pinnedCount} pinned
+                <button
+                    onClick={() => {
+                        data.nodes.forEach(n => { n.fx = null; n.fy = null; });
+                        setPinnedCount(0);
+                        simulationRef.current?.alpha(0.3).restart();
+                    }}
+                    className="ml-2 text-blue-600 hover:underline"
+                >
+                    Release all
+                </button>
+            </div>
+        )}
+      {useCanvas
+        ? <canvas ref={canvasRef} className="w-full h-full block" />
+        : <svg ref={svgRef} className="w-full h-full" />}
       
       {tooltip.visible && tooltip.content && (
         <div 
@@ -256,13 +923,20 @@ const NetworkGraph = forwardRef<NetworkGraphHandle, NetworkGraphProps>(({ data,
                 top: tooltip.y + 15 
             }}
         >
-            <div className="font-bold text-sm mb-1 text-blue-300">{tooltip.content.id}</div>
+            <div className="font-bold text-sm mb-1 text-blue-300">{tooltip.content.label || tooltip.content.id}</div>
             <div className="space-y-0.5">
                 <div className="flex justify-between gap-4"><span className="text-slate-400">Group:</span> <span>{tooltip.content.group}</span></div>
+                {communityGraph?.sizes.has(tooltip.content.id) && (
+                    <div className="flex justify-between gap-4"><span className="text-slate-400">Members:</span> <span>{communityGraph.sizes.get(tooltip.content.id)}</span></div>
+                )}
                 <div className="flex justify-between gap-4"><span className="text-slate-400">PageRank:</span> <span>{tooltip.content.pagerank.toFixed(4)}</span></div>
-                <div className="flex justify-between gap-4"><span className="text-slate-400">Degree:</span> <span>{tooltip.content.degree}</span></div>
+                <div className="flex justify-between gap-4"><span className="text-slate-400">Degree:</span> <span>{formatCentrality(CentralityMetric.DEGREE, tooltip.content.degree)}</span></div>
                 <div className="flex justify-between gap-4"><span className="text-slate-400">Betweenness:</span> <span>{tooltip.content.betweenness.toFixed(4)}</span></div>
+                {![CentralityMetric.PAGERANK, CentralityMetric.DEGREE, CentralityMetric.BETWEENNESS].includes(sizeMetric) && (
+                    <div className="flex justify-between gap-4"><span className="text-slate-400">{CENTRALITY_METRIC_LABELS[sizeMetric]}:</span> <span>{formatCentrality(sizeMetric, tooltip.content[sizeMetric])}</span></div>
+                )}
             </div>
+            {isPinned(tooltip.content) && <div className="mt-1 text-slate-400">Pinned · right-click to release</div>}
         </div>
       )}
     </div>
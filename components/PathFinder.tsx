@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Route, ArrowLeftRight } from 'lucide-react';
+import { GraphData, GraphMode } from '../types';
+import { findShortestPaths, ShortestPathResult, MAX_SHORTEST_PATHS } from '../services/paths';
+
+interface PathFinderProps {
+  data: GraphData;
+  mode: GraphMode;
+  result: ShortestPathResult | null;
+  onResult: (result: ShortestPathResult | null) => void;
+}
+
+const MAX_LISTED_PATHS = 5;
+
+// Source/target picker for "how is account A connected to account B"; inputs use
+// the dashboard's shared `node-ids` datalist for suggestions
+const PathFinder: React.FC<PathFinderProps> = ({ data, mode, result, onResult }) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [weighted, setWeighted] = useState(mode.weighted);
+  const [error, setError] = useState<string | null>(null);
+
+  const labelOf = (id: string) => data.nodes.find(n => n.id === id)?.label || id;
+  const hopCounts = result ? result.paths.map(path => path.length - 1) : [];
+  const minHops = Math.min(...hopCounts);
+  const maxHops = Math.max(...hopCounts);
+
+  const findPaths = () => {
+    const from = source.trim();
+    const to = target.trim();
+    const ids = new Set(data.nodes.map(n => n.id));
+    const missing = [from, to].find(id => !ids.has(id));
+    if (missing !== undefined) {
+      setError(missing ? `No account "${missing}"` : 'Pick both accounts');
+      onResult(null);
+      return;
+    }
+    const found = findShortestPaths(data.nodes, data.links, from, to, { ...mode, weighted });
+    setError(found ? null : `No ${mode.directed ? 'directed ' : ''}path from ${from} to ${to}`);
+    onResult(found);
+  };
+
+  const clear = () => {
+    setError(null);
+    onResult(null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 space-y-3">
+      <h3 className="text-slate-500 text-xs font-semibold uppercase tracking-wider flex items-center">
+        <Route size={14} className="mr-1.5" />
+        Path Finder
+      </h3>
+      <div className="flex items-center space-x-2">
+        <input
+          list="node-ids"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="From account"
+          className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+        />
+        <button
+          onClick={() => { setSource(target); setTarget(source); }}
+          title="Swap accounts"
+          className="p-1.5 text-slate-400 hover:text-slate-600"
+        >
+          <ArrowLeftRight size={14} />
+        </button>
+        <input
+          list="node-ids"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && findPaths()}
+          placeholder="To account"
+          className="flex-1 min-w-0 px-3 py-1.5 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-sm text-slate-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={weighted}
+            onChange={(e) => setWeighted(e.target.checked)}
+            className="accent-blue-600"
+          />
+          <span>Weighted (Dijkstra)</span>
+        </label>
+        <div className="flex space-x-2">
+          {result && (
+            <button
+              onClick={clear}
+              className="px-3 py-1.5 text-slate-500 hover:text-red-500 rounded-lg text-sm transition"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={findPaths}
+            className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-sm font-medium transition"
+          >
+            Find Path
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      {result && (
+        <div className="text-xs text-slate-600 space-y-2">
+          <div className="flex items-center justify-between">
+            <span>
+              <span className="font-bold text-slate-800">{minHops === maxHops ? minHops : `${minHops}–${maxHops}`}</span> hops
+              {result.weighted && <> · distance <span className="font-mono">{+result.distance.toFixed(4)}</span></>}
+            </span>
+            <span className="text-slate-400">
+              {result.truncated ? `${MAX_SHORTEST_PATHS}+` : result.paths.length} shortest path{result.paths.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <ol className="space-y-1">
+            {result.paths.slice(0, MAX_LISTED_PATHS).map((path, i) => (
+              <li key={i} className="bg-orange-50 border border-orange-100 rounded px-2 py-1 text-slate-700 break-words">
+                {path.map(labelOf).join(' → ')}
+                {minHops !== maxHops && (
+                  <span className="text-slate-400"> ({path.length - 1} hops)</span>
+                )}
+              </li>
+            ))}
+          </ol>
+          {result.paths.length > MAX_LISTED_PATHS && (
+            <p className="text-slate-400">All {result.paths.length} paths are highlighted on the graph.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathFinder;
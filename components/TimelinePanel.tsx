@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Clock, Play, Pause, RotateCcw } from 'lucide-react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ReferenceLine, ResponsiveContainer, TooltipContentProps } from 'recharts';
+import { GraphData, GraphMode, TimeWindow } from '../types';
+import {
+  computeTimeline,
+  getTimeRange,
+  countTimeWindows,
+  suggestTimeWindow,
+  TimelinePoint,
+  TIME_WINDOW_LABELS,
+  MAX_TIME_WINDOWS
+} from '../services/temporal';
+
+interface TimelinePanelProps {
+  data: GraphData;
+  mode: GraphMode;
+  cutoff: number | null;
+  onCutoffChange: (cutoff: number | null) => void;
+}
+
+const PLAYBACK_INTERVAL_MS = 800;
+
+// Recharts passes the hovered window in `payload`; TooltipProps alone leaves it out
+const TimelineTooltip = ({ active, payload }: TooltipContentProps<number, string>) => {
+  if (!active || !payload?.length) return null;
+  const point: TimelinePoint = payload[0].payload;
+  return (
+    <div className="bg-white p-2 rounded-lg shadow-md text-xs text-slate-600 space-y-0.5">
+      <div className="font-bold text-slate-800">{point.label}</div>
+      <div>{point.edges} follows among {point.nodes} accounts</div>
+      <div>Density {point.density.toFixed(4)}</div>
+      {point.topInfluencer && <div>Top influencer <span className="font-medium text-slate-800">{point.topInfluencer}</span></div>}
+      <div className="text-slate-400">Network so far: {point.totalNodes} accounts, {point.totalEdges} follows</div>
+    </div>
+  );
+};
+
+// Grows the graph along follow timestamps and charts how each period looked
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ data, mode, cutoff, onCutoffChange }) => {
+  const range = useMemo(() => getTimeRange(data.links), [data]);
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>(TimeWindow.MONTH);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    setPlaying(false);
+    onCutoffChange(null);
+    if (range) setTimeWindow(suggestTimeWindow(range));
+  }, [range, onCutoffChange]);
+
+  const timeline = useMemo(() => computeTimeline(data, timeWindow, mode), [data, timeWindow, mode]);
+
+  // Position on the slider: the last window whose end the cutoff has reached
+  const position = cutoff === null
+    ? timeline.length - 1
+    : Math.max(0, timeline.findIndex(p => p.end > cutoff));
+  const current = timeline[position];
+
+  useEffect(() => {
+    if (!playing) return;
+    if (position >= timeline.length - 1) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => onCutoffChange(timeline[position + 1].end - 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, position, timeline, onCutoffChange]);
+
+  if (!range) return null;
+
+  const togglePlay = () => {
+    if (!playing && (cutoff === null || position >= timeline.length - 1)) {
+      onCutoffChange(timeline[0].end - 1);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-700 flex items-center">
+          <Clock className="w-4 h-4 mr-2 text-sky-500" />
+          Timeline
+        </h3>
+        <select
+          value={timeWindow}
+          onChange={(e) => {
+            setPlaying(false);
+            onCutoffChange(null);
+            setTimeWindow(e.target.value as TimeWindow);
+          }}
+          className="text-xs border border-slate-200 rounded px-2 py-1 bg-white"
+        >
+          {Object.values(TimeWindow).map(w => (
+            <option key={w} value={w} disabled={countTimeWindows(range, w) > MAX_TIME_WINDOWS}>
+              By {TIME_WINDOW_LABELS[w].toLowerCase()}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {timeline.length > 0 && current && (
+        <>
+          <div className="h-40 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={timeline}>
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="count" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="density" orientation="right" tickLine={false} axisLine={false} tick={{ fontSize: 10 }} tickFormatter={(v) => Number(v).toFixed(2)} />
+                <Tooltip content={TimelineTooltip} cursor={{ fill: '#f1f5f9' }} />
+                <Bar yAxisId="count" dataKey="edges" fill="#7dd3fc" radius={[3, 3, 0, 0]} isAnimationActive={false} />
+                <Line yAxisId="count" dataKey="nodes" stroke="#0284c7" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line yAxisId="density" dataKey="density" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                {cutoff !== null && <ReferenceLine yAxisId="count" x={current.label} stroke="#94a3b8" strokeDasharray="3 3" />}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex justify-center space-x-4 text-[11px] text-slate-500 mt-1">
+            <span><span className="inline-block w-2 h-2 bg-sky-300 mr-1" />Follows</span>
+            <span><span className="inline-block w-2 h-0.5 bg-sky-600 mr-1 align-middle" />Active accounts</span>
+            <span><span className="inline-block w-2 h-0.5 bg-amber-500 mr-1 align-middle" />Density</span>
+          </div>
+
+          <div className="flex items-center space-x-2 mt-3">
+            <button
+              onClick={togglePlay}
+              title={playing ? 'Pause' : 'Play from the first window'}
+              className="p-1.5 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg transition"
+            >
+              {playing ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={timeline.length - 1}
+              value={position}
+              onChange={(e) => {
+                setPlaying(false);
+                onCutoffChange(timeline[parseInt(e.target.value, 10)].end - 1);
+              }}
+              className="flex-1 accent-sky-500"
+            />
+            <span className="text-xs text-slate-500 font-mono w-20 text-right">{cutoff === null ? 'All time' : current.label}</span>
+            {cutoff !== null && (
+              <button
+                onClick={() => {
+                  setPlaying(false);
+                  onCutoffChange(null);
+                }}
+                title="Show the whole network"
+                className="p-1.5 text-slate-400 hover:text-slate-600"
+              >
+                <RotateCcw size={14} />
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mt-2">
+            {current.topInfluencer
+              ? <>Top influencer in {current.label}: <span className="font-medium text-slate-800">{current.topInfluencer}</span> (PageRank {current.topPageRank.toFixed(4)})</>
+              : <>No follows in {current.label}.</>}
+            {cutoff !== null && <span className="text-slate-400"> · graph shows {current.totalNodes} accounts, {current.totalEdges} follows</span>}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimelinePanel;
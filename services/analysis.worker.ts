@@ -0,0 +1,34 @@
+import { GraphData, AnalysisOptions, AnalysisProgress, Node, NetworkMetrics } from '../types';
+import { calculateMetrics } from './graphUtils';
+
+export interface AnalysisWorkerRequest {
+  data: GraphData;
+  options: AnalysisOptions;
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; updatedNodes: Node[]; metrics: NetworkMetrics }
+  | { type: 'error'; message: string };
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { data, options } = event.data;
+  let lastStage = '';
+  let lastPercent = -1;
+
+  try {
+    const { updatedNodes, metrics } = calculateMetrics(data, options, (stage, fraction) => {
+      // Only forward whole-percent changes so the main thread isn't flooded
+      const percent = Math.floor(fraction * 100);
+      if (stage === lastStage && percent === lastPercent) return;
+      lastStage = stage;
+      lastPercent = percent;
+      post({ type: 'progress', progress: { stage, fraction } });
+    });
+    post({ type: 'result', updatedNodes, metrics });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
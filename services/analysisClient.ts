@@ -0,0 +1,79 @@
+import { GraphData, AnalysisOptions, AnalysisProgress, Node, Link, NetworkMetrics } from '../types';
+import { calculateMetrics } from './graphUtils';
+import { getLinkNodeId } from './graphIndex';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './analysis.worker';
+
+export interface AnalysisResult {
+  updatedNodes: Node[];
+  links: Link[];
+  metrics: NetworkMetrics;
+}
+
+export interface AnalysisJob {
+  promise: Promise<AnalysisResult | null>; // Resolves to null when cancelled
+  cancel: () => void;
+}
+
+/**
+ * Runs calculateMetrics off the main thread. Each job gets its own worker, so
+ * cancelling simply terminates it mid-computation.
+ * Falls back to a synchronous run where Web Workers are unavailable.
+ */
+export const runAnalysis = (
+  data: GraphData,
+  options: AnalysisOptions,
+  onProgress: (progress: AnalysisProgress) => void = () => {}
+): AnalysisJob => {
+  // D3 replaces link endpoints with node objects; send plain ids instead
+  const links: Link[] = data.links.map(l => ({
+    ...l,
+    source: getLinkNodeId(l.source),
+    target: getLinkNodeId(l.target)
+  }));
+  const request: AnalysisWorkerRequest = { data: { nodes: data.nodes, links }, options };
+
+  if (typeof Worker === 'undefined') {
+    const promise = new Promise<AnalysisResult>(resolve => {
+      const { updatedNodes, metrics } = calculateMetrics(request.data, options, (stage, fraction) => onProgress({ stage, fraction }));
+      resolve({ updatedNodes, links, metrics });
+    });
+    return { promise, cancel: () => {} };
+  }
+
+  const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: AnalysisResult | null) => void = () => {};
+
+  const promise = new Promise<AnalysisResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress);
+          break;
+        case 'result':
+          worker.terminate();
+          resolve({ updatedNodes: message.updatedNodes, links, metrics: message.metrics });
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The analysis worker stopped unexpectedly'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+};
@@ -0,0 +1,166 @@
+import { GraphData, GraphMode } from '../types';
+import { GraphIndex, buildGraphIndex } from './graphIndex';
+import { createRng, shuffle } from './random';
+
+export const DEFAULT_BRIDGE_COUNT = 5;
+
+// Members per community that anchor the distance sums; larger communities are sampled
+const MAX_BRIDGE_SOURCES = 200;
+// Best-placed endpoints per side that are paired up as candidate edges
+const BRIDGE_CANDIDATES = 20;
+const MAX_BRIDGE_ACCOUNTS = 5;
+
+export interface SuggestedBridge {
+  source: string; // Member of the first community
+  target: string; // Member of the second community
+  averageDistance: number; // Average inter-community distance once this and every earlier suggestion is added
+}
+
+export interface BridgeAccount {
+  id: string;
+  group: number;
+  tiesA: number; // Distinct neighbors in the first community
+  tiesB: number; // Distinct neighbors in the second community
+}
+
+export interface BridgeRecommendation {
+  communityA: number;
+  communityB: number;
+  averageDistance: number; // Before any suggested edge
+  unreachablePairs: number; // Sampled pairs with no path between them
+  suggestions: SuggestedBridge[];
+  brokers: BridgeAccount[]; // Existing accounts already tied into both communities
+  sampled: boolean;
+}
+
+// Hop distances from `source` over undirected ties plus the suggested edges so far; -1 if unreachable
+const bfs = (index: GraphIndex, extra: Map<number, number[]>, source: number): Int32Array => {
+  const dist = new Int32Array(index.size).fill(-1);
+  dist[source] = 0;
+  const queue = [source];
+  for (let head = 0; head < queue.length; head++) {
+    const u = queue[head];
+    const visit = (v: number) => {
+      if (dist[v] >= 0) return;
+      dist[v] = dist[u] + 1;
+      queue.push(v);
+    };
+    index.neighbors[u].forEach(visit);
+    extra.get(u)?.forEach(visit);
+  }
+  return dist;
+};
+
+/**
+ * Suggests new ties between communities `a` and `b` (Node.group values), chosen
+ * greedily to shrink the average shortest-path distance between their members.
+ * Distances are undirected hop counts, since information crosses a follow either
+ * way; pairs with no path count as `n` hops so joining separate components wins.
+ * Each round pairs the members closest on average to their own community (the
+ * natural hubs of each side) and keeps the edge with the largest reduction.
+ */
+export const recommendBridges = (
+  data: GraphData,
+  a: number,
+  b: number,
+  mode: GraphMode,
+  seed: number,
+  count: number = DEFAULT_BRIDGE_COUNT,
+  onProgress: (fraction: number) => void = () => {}
+): BridgeRecommendation => {
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const membersA: number[] = [];
+  const membersB: number[] = [];
+  data.nodes.forEach((n, i) => {
+    if (n.group === a) membersA.push(i);
+    else if (n.group === b) membersB.push(i);
+  });
+
+  const rng = createRng(seed, 'bridges');
+  const sample = (members: number[]) => members.length > MAX_BRIDGE_SOURCES
+    ? shuffle([...members], rng).slice(0, MAX_BRIDGE_SOURCES)
+    : members;
+  const sourcesA = sample(membersA);
+  const sourcesB = sample(membersB);
+  const unreachable = index.size;
+  const hops = (d: number) => d < 0 ? unreachable : d;
+
+  const extra = new Map<number, number[]>();
+  const linked = (u: number, v: number) => index.neighbors[u].includes(v) || (extra.get(u)?.includes(v) ?? false);
+
+  let distA: Int32Array[] = [];
+  let distB: Int32Array[] = [];
+  const totalDistance = () => {
+    let total = 0;
+    distA.forEach(d => sourcesB.forEach(v => { total += hops(d[v]); }));
+    return total;
+  };
+  const measure = () => {
+    distA = sourcesA.map(s => bfs(index, extra, s));
+    distB = sourcesB.map(s => bfs(index, extra, s));
+    return totalDistance();
+  };
+  // Members with the smallest summed distance to the sampled members of their own side
+  const bestPlaced = (members: number[], dist: Int32Array[]) => members
+    .map(u => ({ u, spread: dist.reduce((sum, d) => sum + hops(d[u]), 0) }))
+    .sort((x, y) => x.spread - y.spread || x.u - y.u)
+    .slice(0, BRIDGE_CANDIDATES)
+    .map(entry => entry.u);
+
+  const pairCount = sourcesA.length * sourcesB.length;
+  let current = pairCount > 0 ? measure() : 0;
+  const averageDistance = pairCount > 0 ? current / pairCount : 0;
+  let unreachablePairs = 0;
+  distA.forEach(d => sourcesB.forEach(v => { if (d[v] < 0) unreachablePairs++; }));
+
+  const suggestions: SuggestedBridge[] = [];
+  while (pairCount > 0 && suggestions.length < count) {
+    const candidatesA = bestPlaced(membersA, distA);
+    const candidatesB = bestPlaced(membersB, distB);
+    let best: { u: number; v: number; total: number } | null = null;
+
+    for (const u of candidatesA) {
+      const toU = distA.map(d => hops(d[u]));
+      for (const v of candidatesB) {
+        if (linked(u, v)) continue;
+        const fromV = distB.map(d => hops(d[v]));
+        let total = 0;
+        distA.forEach((d, i) => sourcesB.forEach((w, j) => {
+          total += Math.min(hops(d[w]), toU[i] + 1 + fromV[j]);
+        }));
+        if (total < current && (!best || total < best.total)) best = { u, v, total };
+      }
+    }
+
+    if (!best) break;
+    const { u, v } = best;
+    extra.set(u, [...(extra.get(u) ?? []), v]);
+    extra.set(v, [...(extra.get(v) ?? []), u]);
+    current = measure();
+    suggestions.push({ source: data.nodes[u].id, target: data.nodes[v].id, averageDistance: current / pairCount });
+    onProgress(suggestions.length / count);
+  }
+  onProgress(1);
+
+  const brokers: BridgeAccount[] = [];
+  data.nodes.forEach((n, i) => {
+    let tiesA = 0;
+    let tiesB = 0;
+    index.neighbors[i].forEach(j => {
+      if (data.nodes[j].group === a) tiesA++;
+      else if (data.nodes[j].group === b) tiesB++;
+    });
+    if (tiesA > 0 && tiesB > 0) brokers.push({ id: n.id, group: n.group ?? 0, tiesA, tiesB });
+  });
+  brokers.sort((x, y) => y.tiesA * y.tiesB - x.tiesA * x.tiesB || (y.tiesA + y.tiesB) - (x.tiesA + x.tiesB));
+
+  return {
+    communityA: a,
+    communityB: b,
+    averageDistance,
+    unreachablePairs,
+    suggestions,
+    brokers: brokers.slice(0, MAX_BRIDGE_ACCOUNTS),
+    sampled: sourcesA.length < membersA.length || sourcesB.length < membersB.length,
+  };
+};
@@ -0,0 +1,481 @@
+import { BetweennessOptions, CentralityMetric } from '../types';
+import { GraphIndex, successors, pathAdjacency } from './graphIndex';
+import { createMinHeap } from './priorityQueue';
+import { Random } from './random';
+
+// Graphs above this size fall back to sampled-pivot betweenness by default
+export const EXACT_BETWEENNESS_LIMIT = 3000;
+export const DEFAULT_BETWEENNESS_SAMPLES = 100; // Mirrors nx.betweenness_centrality(G, k=100)
+
+// nx.pagerank defaults
+export const DEFAULT_DAMPING = 0.85;
+export const DEFAULT_PAGERANK_TOLERANCE = 1e-6;
+export const DEFAULT_PAGERANK_MAX_ITERATIONS = 100;
+
+// nx.eigenvector_centrality / nx.katz_centrality / nx.hits defaults
+export const DEFAULT_KATZ_ALPHA = 0.1;
+const EIGENVECTOR_MAX_ITERATIONS = 100;
+const KATZ_MAX_ITERATIONS = 1000;
+const HITS_MAX_ITERATIONS = 100;
+const HITS_TOLERANCE = 1e-8;
+
+// Path lengths closer than this count as ties
+export const DISTANCE_EPSILON = 1e-9;
+
+export const CENTRALITY_METRIC_LABELS: Record<CentralityMetric, string> = {
+  [CentralityMetric.DEGREE]: 'Degree',
+  [CentralityMetric.PAGERANK]: 'PageRank',
+  [CentralityMetric.BETWEENNESS]: 'Betweenness',
+  [CentralityMetric.CLOSENESS]: 'Closeness',
+  [CentralityMetric.HARMONIC]: 'Harmonic',
+  [CentralityMetric.EIGENVECTOR]: 'Eigenvector',
+  [CentralityMetric.KATZ]: 'Katz',
+  [CentralityMetric.HUB]: 'HITS Hub',
+  [CentralityMetric.AUTHORITY]: 'HITS Authority',
+  [CentralityMetric.CORENESS]: 'k-Core',
+};
+
+// Display form of a metric value; degree is a fractional strength when edges are weighted
+export const formatCentrality = (metric: CentralityMetric, value: number): string =>
+  metric === CentralityMetric.CORENESS || (metric === CentralityMetric.DEGREE && Number.isInteger(value))
+    ? String(value)
+    : value.toFixed(4);
+
+// Pick k distinct indices out of [0, n) with a partial Fisher–Yates shuffle
+const samplePivots = (n: number, k: number, rng: Random): number[] => {
+  const pool = Array.from({ length: n }, (_, i) => i);
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(rng() * (n - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, k);
+};
+
+/**
+ * Brandes' algorithm for betweenness centrality. Uses BFS on unweighted graphs
+ * and Dijkstra (weights as distances) on weighted ones, following the index's direction.
+ * When `k` is smaller than the node count, only k randomly chosen source pivots
+ * are explored and the result is scaled by n / k (same estimator as NetworkX).
+ * Returns scores indexed like the graph index.
+ */
+export const computeBetweenness = (
+  index: GraphIndex,
+  options: BetweennessOptions = {},
+  rng: Random = Math.random,
+  onProgress?: (fraction: number) => void
+): number[] => {
+  const { normalized = true } = options;
+  const { directed, weighted } = index;
+  const n = index.size;
+  const scores = new Array<number>(n).fill(0);
+  if (n < 3) return scores;
+
+  const { neighbors, lengths } = pathAdjacency(index);
+
+  const k = options.k !== undefined && options.k < n ? Math.max(1, Math.floor(options.k)) : n;
+  const pivots = k < n ? samplePivots(n, k, rng) : Array.from({ length: n }, (_, i) => i);
+
+  // Buffers reused across single-source passes
+  const sigma = new Float64Array(n);
+  const dist = new Float64Array(n);
+  const delta = new Float64Array(n);
+  const settled = new Uint8Array(n);
+  const predecessors: number[][] = Array.from({ length: n }, () => []);
+  const queue = new Int32Array(n);
+  const stack: number[] = [];
+
+  // BFS counting shortest paths; fills `stack` in order of non-decreasing distance
+  const countPathsUnweighted = (s: number) => {
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = s;
+    while (head < tail) {
+      const v = queue[head++];
+      stack.push(v);
+      for (const w of neighbors[v]) {
+        if (dist[w] === Infinity) {
+          dist[w] = dist[v] + 1;
+          queue[tail++] = w;
+        }
+        if (dist[w] === dist[v] + 1) {
+          sigma[w] += sigma[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+  };
+
+  // Dijkstra variant of the same, tolerating floating-point ties
+  const countPathsWeighted = (s: number) => {
+    const heap = createMinHeap();
+    heap.push(s, 0);
+    while (heap.size() > 0) {
+      const { item: v } = heap.pop()!;
+      if (settled[v]) continue;
+      settled[v] = 1;
+      stack.push(v);
+      neighbors[v].forEach((w, i) => {
+        const candidate = dist[v] + lengths[v][i];
+        if (candidate < dist[w] - DISTANCE_EPSILON) {
+          dist[w] = candidate;
+          sigma[w] = sigma[v];
+          predecessors[w] = [v];
+          heap.push(w, candidate);
+        } else if (!settled[w] && Math.abs(candidate - dist[w]) <= DISTANCE_EPSILON) {
+          sigma[w] += sigma[v];
+          predecessors[w].push(v);
+        }
+      });
+    }
+  };
+
+  pivots.forEach((s, p) => {
+    sigma.fill(0);
+    dist.fill(Infinity);
+    delta.fill(0);
+    settled.fill(0);
+    predecessors.forEach(list => list.length = 0);
+    stack.length = 0;
+
+    sigma[s] = 1;
+    dist[s] = 0;
+    if (weighted) {
+      countPathsWeighted(s);
+    } else {
+      countPathsUnweighted(s);
+    }
+
+    // Back-propagate dependencies in order of non-increasing distance
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors[w]) {
+        delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      }
+      if (w !== s) scores[w] += delta[w];
+    }
+
+    onProgress?.((p + 1) / pivots.length);
+  });
+
+  // Each undirected path was counted from both ends
+  let scale = k < n ? n / k : 1;
+  if (!directed) scale /= 2;
+  if (normalized) {
+    scale /= directed ? (n - 1) * (n - 2) : ((n - 1) * (n - 2)) / 2;
+  }
+
+  return scores.map(score => score * scale);
+};
+
+export interface PageRankResult {
+  scores: number[];
+  iterations: number;
+  converged: boolean;
+}
+
+/**
+ * Power-iteration PageRank matching nx.pagerank: rank flows along outgoing edges
+ * (both ways when undirected) in proportion to edge weight, rank held by dangling
+ * nodes is redistributed by the personalization vector, and iteration stops once
+ * the L1 change drops below n * tolerance.
+ * `personalization` lists node indices to teleport to (uniformly); empty means all nodes.
+ */
+export const computePageRank = (
+  index: GraphIndex,
+  options: { damping?: number; tolerance?: number; maxIterations?: number; personalization?: number[] } = {},
+  onProgress?: (fraction: number) => void
+): PageRankResult => {
+  const {
+    damping = DEFAULT_DAMPING,
+    tolerance = DEFAULT_PAGERANK_TOLERANCE,
+    maxIterations = DEFAULT_PAGERANK_MAX_ITERATIONS,
+    personalization = [],
+  } = options;
+  const n = index.size;
+  if (n === 0) return { scores: [], iterations: 0, converged: true };
+
+  const { neighbors, weights } = successors(index);
+  const outStrength = weights.map(list => list.reduce((sum, w) => sum + w, 0));
+  const dangling = outStrength.map((strength, v) => strength === 0 ? v : -1).filter(v => v >= 0);
+
+  // Teleport distribution, also used for dangling mass
+  const teleport = new Float64Array(n);
+  if (personalization.length > 0) {
+    personalization.forEach(v => teleport[v] = 1 / personalization.length);
+  } else {
+    teleport.fill(1 / n);
+  }
+
+  let ranks = new Float64Array(n).fill(1 / n);
+  for (let i = 0; i < maxIterations; i++) {
+    const danglingMass = dangling.reduce((sum, v) => sum + ranks[v], 0);
+    const next = new Float64Array(n);
+    for (let v = 0; v < n; v++) {
+      next[v] = (damping * danglingMass + (1 - damping)) * teleport[v];
+    }
+    for (let v = 0; v < n; v++) {
+      if (outStrength[v] === 0) continue;
+      const share = (ranks[v] * damping) / outStrength[v];
+      neighbors[v].forEach((w, j) => next[w] += share * weights[v][j]);
+    }
+
+    let change = 0;
+    for (let v = 0; v < n; v++) change += Math.abs(next[v] - ranks[v]);
+    ranks = next;
+    onProgress?.((i + 1) / maxIterations);
+
+    if (change < n * tolerance) {
+      onProgress?.(1);
+      return { scores: Array.from(ranks), iterations: i + 1, converged: true };
+    }
+  }
+
+  return { scores: Array.from(ranks), iterations: maxIterations, converged: false };
+};
+
+export interface ClosenessResult {
+  closeness: number[];
+  harmonic: number[];
+}
+
+/**
+ * Closeness (Wasserman–Faust scaled, as nx.closeness_centrality) and harmonic
+ * centrality from one shortest-path search per source. Like NetworkX, directed
+ * graphs use incoming distance: how quickly a node is reached by everyone else.
+ * With `k` below the node count only k sampled sources are searched and both
+ * scores are extrapolated from the sources that are not the node itself.
+ */
+export const computeCloseness = (
+  index: GraphIndex,
+  options: { k?: number } = {},
+  rng: Random = Math.random,
+  onProgress?: (fraction: number) => void
+): ClosenessResult => {
+  const n = index.size;
+  const { neighbors, lengths } = pathAdjacency(index);
+  const k = options.k !== undefined && options.k < n ? Math.max(1, Math.floor(options.k)) : n;
+  const pivots = k < n ? samplePivots(n, k, rng) : Array.from({ length: n }, (_, i) => i);
+  const isPivot = new Uint8Array(n);
+  pivots.forEach(s => isPivot[s] = 1);
+
+  const reached = new Float64Array(n);
+  const totalDistance = new Float64Array(n);
+  const inverseDistance = new Float64Array(n);
+  const dist = new Float64Array(n);
+  const settled = new Uint8Array(n);
+  const queue = new Int32Array(n);
+
+  pivots.forEach((s, p) => {
+    dist.fill(Infinity);
+    dist[s] = 0;
+    const visit = (w: number) => {
+      if (w === s) return;
+      reached[w]++;
+      totalDistance[w] += dist[w];
+      inverseDistance[w] += 1 / dist[w];
+    };
+
+    if (index.weighted) {
+      settled.fill(0);
+      const heap = createMinHeap();
+      heap.push(s, 0);
+      while (heap.size() > 0) {
+        const { item: v } = heap.pop()!;
+        if (settled[v]) continue;
+        settled[v] = 1;
+        visit(v);
+        neighbors[v].forEach((w, i) => {
+          const candidate = dist[v] + lengths[v][i];
+          if (candidate < dist[w]) {
+            dist[w] = candidate;
+            heap.push(w, candidate);
+          }
+        });
+      }
+    } else {
+      let head = 0;
+      let tail = 0;
+      queue[tail++] = s;
+      while (head < tail) {
+        const v = queue[head++];
+        visit(v);
+        for (const w of neighbors[v]) {
+          if (dist[w] === Infinity) {
+            dist[w] = dist[v] + 1;
+            queue[tail++] = w;
+          }
+        }
+      }
+    }
+    onProgress?.((p + 1) / pivots.length);
+  });
+
+  const closeness = new Array<number>(n).fill(0);
+  const harmonic = new Array<number>(n).fill(0);
+  for (let v = 0; v < n; v++) {
+    const sources = k - isPivot[v];
+    if (sources === 0) continue;
+    // Exact case: (r - 1) / (n - 1) * (r - 1) / sum of distances, r = nodes reaching v
+    if (totalDistance[v] > 0) closeness[v] = (reached[v] / sources) * (reached[v] / totalDistance[v]);
+    harmonic[v] = inverseDistance[v] * (n - 1) / sources;
+  }
+  return { closeness, harmonic };
+};
+
+// Math.hypot(...values) would overflow the argument limit on large graphs
+const euclideanNorm = (values: Float64Array): number =>
+  Math.sqrt(values.reduce((sum, value) => sum + value * value, 0));
+
+export interface EigenvectorResult {
+  scores: number[];
+  eigenvalue: number; // Leading eigenvalue estimate, used to keep Katz convergent
+  converged: boolean;
+}
+
+/**
+ * Power iteration on (A + I) as nx.eigenvector_centrality does, so bipartite
+ * structures still converge. Score flows along edges, making it an in-edge
+ * (prestige) measure on directed graphs. Scores have unit Euclidean norm.
+ */
+export const computeEigenvector = (index: GraphIndex, tolerance: number = DEFAULT_PAGERANK_TOLERANCE): EigenvectorResult => {
+  const n = index.size;
+  if (n === 0) return { scores: [], eigenvalue: 0, converged: true };
+  const { neighbors, weights } = successors(index);
+
+  let x = new Float64Array(n).fill(1 / n);
+  let norm = 0;
+  for (let i = 0; i < EIGENVECTOR_MAX_ITERATIONS; i++) {
+    const next = Float64Array.from(x);
+    for (let v = 0; v < n; v++) {
+      neighbors[v].forEach((w, j) => next[w] += x[v] * weights[v][j]);
+    }
+    norm = euclideanNorm(next) || 1;
+    let change = 0;
+    for (let v = 0; v < n; v++) {
+      next[v] /= norm;
+      change += Math.abs(next[v] - x[v]);
+    }
+    x = next;
+    if (change < n * tolerance) return { scores: Array.from(x), eigenvalue: norm - 1, converged: true };
+  }
+  return { scores: Array.from(x), eigenvalue: norm - 1, converged: false };
+};
+
+/**
+ * Katz centrality as nx.katz_centrality (beta = 1, unit-norm result). The series
+ * only converges for alpha below 1 / lambda_max, so callers should cap alpha
+ * using the eigenvector's eigenvalue.
+ */
+export const computeKatz = (
+  index: GraphIndex,
+  alpha: number = DEFAULT_KATZ_ALPHA,
+  tolerance: number = DEFAULT_PAGERANK_TOLERANCE
+): { scores: number[]; converged: boolean } => {
+  const n = index.size;
+  if (n === 0) return { scores: [], converged: true };
+  const { neighbors, weights } = successors(index);
+
+  let x = new Float64Array(n);
+  let converged = false;
+  for (let i = 0; i < KATZ_MAX_ITERATIONS && !converged; i++) {
+    const next = new Float64Array(n);
+    for (let v = 0; v < n; v++) {
+      neighbors[v].forEach((w, j) => next[w] += x[v] * weights[v][j]);
+    }
+    let change = 0;
+    for (let v = 0; v < n; v++) {
+      next[v] = alpha * next[v] + 1;
+      change += Math.abs(next[v] - x[v]);
+    }
+    x = next;
+    converged = change < n * tolerance;
+  }
+
+  const norm = euclideanNorm(x) || 1;
+  return { scores: Array.from(x, value => value / norm), converged };
+};
+
+/**
+ * HITS hub and authority scores (nx.hits): good hubs point to good authorities.
+ * On a follower graph authorities are the accounts worth following and hubs the
+ * curators who follow them. Both vectors sum to 1; on undirected graphs they match.
+ */
+export const computeHits = (index: GraphIndex): { hubs: number[]; authorities: number[] } => {
+  const n = index.size;
+  if (n === 0) return { hubs: [], authorities: [] };
+  const { neighbors, weights } = successors(index);
+
+  let hubs = new Float64Array(n).fill(1 / n);
+  let authorities = new Float64Array(n);
+  for (let i = 0; i < HITS_MAX_ITERATIONS; i++) {
+    const nextAuthorities = new Float64Array(n);
+    const nextHubs = new Float64Array(n);
+    for (let v = 0; v < n; v++) {
+      neighbors[v].forEach((w, j) => nextAuthorities[w] += hubs[v] * weights[v][j]);
+    }
+    for (let v = 0; v < n; v++) {
+      neighbors[v].forEach((w, j) => nextHubs[v] += nextAuthorities[w] * weights[v][j]);
+    }
+    const maxHub = nextHubs.reduce((m, value) => Math.max(m, value), 0) || 1;
+    const maxAuthority = nextAuthorities.reduce((m, value) => Math.max(m, value), 0) || 1;
+    let change = 0;
+    for (let v = 0; v < n; v++) {
+      nextHubs[v] /= maxHub;
+      nextAuthorities[v] /= maxAuthority;
+      change += Math.abs(nextHubs[v] - hubs[v]);
+    }
+    hubs = nextHubs;
+    authorities = nextAuthorities;
+    if (change < HITS_TOLERANCE) break;
+  }
+
+  const toDistribution = (values: Float64Array) => {
+    const total = values.reduce((sum, value) => sum + value, 0) || 1;
+    return Array.from(values, value => value / total);
+  };
+  return { hubs: toDistribution(hubs), authorities: toDistribution(authorities) };
+};
+
+/**
+ * Core number of every node (nx.core_number) with the Batagelj–Zaversnik bucket
+ * algorithm. Direction and weights are ignored; on directed graphs a node's
+ * degree is in + out, so a mutual follow counts twice.
+ */
+export const computeCoreness = (index: GraphIndex): number[] => {
+  const n = index.size;
+  const adjacency = index.directed
+    ? index.outNeighbors.map((out, v) => out.concat(index.inNeighbors[v]))
+    : index.neighbors;
+  const degree = adjacency.map(list => list.length);
+  const maxDegree = degree.reduce((m, d) => Math.max(m, d), 0);
+
+  // Nodes sorted by degree, with binStart[d] the first position of degree d
+  const binStart = new Int32Array(maxDegree + 2);
+  degree.forEach(d => binStart[d + 1]++);
+  for (let d = 1; d <= maxDegree + 1; d++) binStart[d] += binStart[d - 1];
+  const position = new Int32Array(n);
+  const order = new Int32Array(n);
+  const fill = binStart.slice();
+  for (let v = 0; v < n; v++) {
+    position[v] = fill[degree[v]]++;
+    order[position[v]] = v;
+  }
+
+  for (let i = 0; i < n; i++) {
+    const v = order[i];
+    for (const u of adjacency[v]) {
+      if (degree[u] <= degree[v]) continue;
+      // Swap u with the first node of its bin, then shrink that bin by one
+      const du = degree[u];
+      const first = order[binStart[du]];
+      if (first !== u) {
+        order[position[u]] = first;
+        order[binStart[du]] = u;
+        [position[u], position[first]] = [binStart[du], position[u]];
+      }
+      binStart[du]++;
+      degree[u]--;
+    }
+  }
+  return degree;
+};
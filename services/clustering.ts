@@ -0,0 +1,154 @@
+import { GraphIndex } from './graphIndex';
+
+export interface ClusteringResult {
+  triangles: number[]; // Triangles through each node, ignoring direction
+  clustering: number[]; // Local clustering coefficient
+  triangleCount: number;
+  transitivity: number; // 3 * triangles / connected triples
+  averageClustering: number;
+}
+
+export interface ReciprocityResult {
+  nodes: number[]; // Share of each node's follow relations that are mutual
+  overall: number; // Share of directed edges whose reverse edge also exists
+}
+
+// Fagiolo (2007): directed triangles over the triangles possible given total and mutual degree
+const directedClustering = (index: GraphIndex): number[] => {
+  const n = index.size;
+  const { inNeighbors, outNeighbors } = index;
+  const isPredecessor = new Uint8Array(n);
+  const isSuccessor = new Uint8Array(n);
+
+  return outNeighbors.map((successors, i) => {
+    const predecessors = inNeighbors[i];
+    predecessors.forEach(j => isPredecessor[j] = 1);
+    successors.forEach(j => isSuccessor[j] = 1);
+
+    let directedTriangles = 0;
+    let mutual = 0;
+    const countFrom = (j: number) => {
+      for (const k of inNeighbors[j]) directedTriangles += isPredecessor[k] + isSuccessor[k];
+      for (const k of outNeighbors[j]) directedTriangles += isPredecessor[k] + isSuccessor[k];
+    };
+    predecessors.forEach(countFrom);
+    successors.forEach(j => {
+      countFrom(j);
+      mutual += isPredecessor[j];
+    });
+
+    predecessors.forEach(j => isPredecessor[j] = 0);
+    successors.forEach(j => isSuccessor[j] = 0);
+
+    const total = predecessors.length + successors.length;
+    const possible = 2 * (total * (total - 1) - 2 * mutual);
+    return possible > 0 ? directedTriangles / possible : 0;
+  });
+};
+
+/**
+ * Triangle counts and clustering coefficients. Triangles and transitivity use
+ * the underlying undirected graph (nx.triangles / nx.transitivity); the local
+ * coefficient uses Fagiolo's directed definition when the graph is directed,
+ * as nx.clustering does. Weights are ignored.
+ */
+export const computeClustering = (index: GraphIndex): ClusteringResult => {
+  const n = index.size;
+  const { neighbors } = index;
+  const triangles = new Array<number>(n).fill(0);
+  const marked = new Uint8Array(n);
+  let triangleCount = 0;
+
+  // Each triangle u < v < w is found once, from its lowest node
+  for (let u = 0; u < n; u++) {
+    neighbors[u].forEach(w => marked[w] = 1);
+    for (const v of neighbors[u]) {
+      if (v <= u) continue;
+      for (const w of neighbors[v]) {
+        if (w <= v || !marked[w]) continue;
+        triangles[u]++;
+        triangles[v]++;
+        triangles[w]++;
+        triangleCount++;
+      }
+    }
+    neighbors[u].forEach(w => marked[w] = 0);
+  }
+
+  let triples = 0;
+  neighbors.forEach(list => triples += (list.length * (list.length - 1)) / 2);
+
+  const clustering = index.directed
+    ? directedClustering(index)
+    : neighbors.map((list, v) => list.length > 1 ? triangles[v] / ((list.length * (list.length - 1)) / 2) : 0);
+
+  return {
+    triangles,
+    clustering,
+    triangleCount,
+    transitivity: triples > 0 ? (3 * triangleCount) / triples : 0,
+    averageClustering: n > 0 ? clustering.reduce((sum, c) => sum + c, 0) / n : 0,
+  };
+};
+
+/**
+ * Reciprocity of the follow direction (nx.reciprocity / nx.overall_reciprocity).
+ * Always read from link direction, so it stays meaningful when the rest of the
+ * analysis treats the graph as undirected.
+ */
+export const computeReciprocity = (index: GraphIndex): ReciprocityResult => {
+  const { inNeighbors, outNeighbors } = index;
+  const isSuccessor = new Uint8Array(index.size);
+  let edges = 0;
+  let reciprocated = 0;
+
+  const nodes = outNeighbors.map((successors, v) => {
+    successors.forEach(w => isSuccessor[w] = 1);
+    const mutual = inNeighbors[v].reduce((count, w) => count + isSuccessor[w], 0);
+    successors.forEach(w => isSuccessor[w] = 0);
+
+    edges += successors.length;
+    reciprocated += mutual;
+    const total = successors.length + inNeighbors[v].length;
+    return total > 0 ? (2 * mutual) / total : 0;
+  });
+
+  return { nodes, overall: edges > 0 ? reciprocated / edges : 0 };
+};
+
+/**
+ * Degree assortativity (nx.degree_assortativity_coefficient): Pearson correlation
+ * of the degrees at either end of each edge — out-degree of the source against
+ * in-degree of the target when directed. Counts distinct neighbors, not weights.
+ * Returns 0 where NetworkX would give NaN (every edge joins equal degrees).
+ */
+export const computeAssortativity = (index: GraphIndex): number => {
+  const { directed, outNeighbors, inNeighbors, neighbors } = index;
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  const adjacency = directed ? outNeighbors : neighbors;
+  adjacency.forEach(list => {
+    const x = list.length;
+    for (const v of list) {
+      const y = directed ? inNeighbors[v].length : neighbors[v].length;
+      count++;
+      sumX += x;
+      sumY += y;
+      sumXX += x * x;
+      sumYY += y * y;
+      sumXY += x * y;
+    }
+  });
+  if (count === 0) return 0;
+
+  const covariance = sumXY / count - (sumX / count) * (sumY / count);
+  const varianceX = sumXX / count - (sumX / count) ** 2;
+  const varianceY = sumYY / count - (sumY / count) ** 2;
+  const denominator = Math.sqrt(varianceX * varianceY);
+  return denominator > 1e-12 ? covariance / denominator : 0;
+};
@@ -0,0 +1,350 @@
+import { CommunityAlgorithm, CommunityOptions } from '../types';
+import { GraphIndex } from './graphIndex';
+import { Random, shuffle } from './random';
+
+// Undirected weighted view of the graph used by the modularity-based methods.
+// Community detection always symmetrizes the graph (as NetworkX's label propagation
+// and Louvain do for undirected input); edge weights are honored when enabled.
+// Self-loops are kept apart so node strength counts them twice, as in Newman's definition.
+interface WeightedGraph {
+  size: number;
+  adjacency: Map<number, number>[];
+  loops: Float64Array;
+  strength: Float64Array;
+  totalStrength: number; // 2m
+}
+
+const EPSILON = 1e-12;
+
+const buildWeightedGraph = (index: GraphIndex): WeightedGraph => {
+  const { size, sources, targets, weights } = index;
+  const adjacency: Map<number, number>[] = Array.from({ length: size }, () => new Map());
+  const loops = new Float64Array(size);
+
+  for (let e = 0; e < sources.length; e++) {
+    const s = sources[e];
+    const t = targets[e];
+    const weight = weights[e];
+    if (s === t) {
+      loops[s] += weight;
+    } else {
+      adjacency[s].set(t, (adjacency[s].get(t) || 0) + weight);
+      adjacency[t].set(s, (adjacency[t].get(s) || 0) + weight);
+    }
+  }
+
+  return withStrength(size, adjacency, loops);
+};
+
+const withStrength = (size: number, adjacency: Map<number, number>[], loops: Float64Array): WeightedGraph => {
+  const strength = new Float64Array(size);
+  let totalStrength = 0;
+  for (let i = 0; i < size; i++) {
+    let k = 2 * loops[i];
+    adjacency[i].forEach(w => k += w);
+    strength[i] = k;
+    totalStrength += k;
+  }
+  return { size, adjacency, loops, strength, totalStrength };
+};
+
+const shuffledRange = (n: number, rng: Random): number[] =>
+  shuffle(Array.from({ length: n }, (_, i) => i), rng);
+
+// Relabel arbitrary community ids to 0..c-1 in order of first appearance
+const compact = (assignment: ArrayLike<number>): Int32Array => {
+  const remap = new Map<number, number>();
+  const result = new Int32Array(assignment.length);
+  for (let i = 0; i < assignment.length; i++) {
+    if (!remap.has(assignment[i])) remap.set(assignment[i], remap.size);
+    result[i] = remap.get(assignment[i])!;
+  }
+  return result;
+};
+
+/**
+ * Louvain local-moving phase: repeatedly move single nodes to the neighboring
+ * community with the largest modularity gain until no move improves Q.
+ * Mutates `community` in place and reports whether anything moved.
+ */
+const moveNodes = (graph: WeightedGraph, community: Int32Array, resolution: number, rng: Random): boolean => {
+  const { size, adjacency, strength, totalStrength } = graph;
+  const totals = new Float64Array(size);
+  for (let i = 0; i < size; i++) totals[community[i]] += strength[i];
+
+  const linkWeight = new Float64Array(size);
+  const touched: number[] = [];
+  const order = shuffledRange(size, rng);
+  let improved = false;
+  let moved = true;
+
+  while (moved) {
+    moved = false;
+    for (const i of order) {
+      const current = community[i];
+      const k = strength[i];
+
+      touched.length = 0;
+      adjacency[i].forEach((w, j) => {
+        const c = community[j];
+        if (linkWeight[c] === 0) touched.push(c);
+        linkWeight[c] += w;
+      });
+
+      totals[current] -= k;
+      let best = current;
+      let bestGain = linkWeight[current] - resolution * totals[current] * k / totalStrength;
+      for (const c of touched) {
+        const gain = linkWeight[c] - resolution * totals[c] * k / totalStrength;
+        if (gain > bestGain + EPSILON) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+      totals[best] += k;
+      community[i] = best;
+
+      if (best !== current) {
+        moved = true;
+        improved = true;
+      }
+      for (const c of touched) linkWeight[c] = 0;
+    }
+  }
+
+  return improved;
+};
+
+/**
+ * Leiden refinement phase: inside every community, start from singletons and
+ * greedily merge well-connected nodes into well-connected sub-communities.
+ * This guarantees the aggregated communities are internally connected.
+ */
+const refinePartition = (
+  graph: WeightedGraph,
+  community: Int32Array,
+  resolution: number,
+  rng: Random
+): Int32Array => {
+  const { size, adjacency, strength, totalStrength } = graph;
+  const refined = Int32Array.from({ length: size }, (_, i) => i);
+  const refinedTotals = Float64Array.from(strength);
+  const refinedSizes = new Int32Array(size).fill(1);
+  // Weight from each refined community to the rest of its parent community
+  const external = new Float64Array(size);
+  const communityTotals = new Float64Array(size);
+
+  for (let i = 0; i < size; i++) {
+    communityTotals[community[i]] += strength[i];
+    adjacency[i].forEach((w, j) => {
+      if (community[j] === community[i]) external[i] += w;
+    });
+  }
+
+  const linkWeight = new Float64Array(size);
+  const touched: number[] = [];
+
+  for (const i of shuffledRange(size, rng)) {
+    if (refinedSizes[refined[i]] > 1) continue;
+    const parent = community[i];
+    const k = strength[i];
+    const parentTotal = communityTotals[parent];
+    if (external[i] < resolution * k * (parentTotal - k) / totalStrength) continue;
+
+    touched.length = 0;
+    adjacency[i].forEach((w, j) => {
+      if (community[j] !== parent) return;
+      const c = refined[j];
+      if (c === refined[i]) return;
+      if (linkWeight[c] === 0) touched.push(c);
+      linkWeight[c] += w;
+    });
+
+    let best = -1;
+    let bestGain = 0;
+    for (const c of touched) {
+      const cTotal = refinedTotals[c];
+      const wellConnected = external[c] >= resolution * cTotal * (parentTotal - cTotal) / totalStrength;
+      if (!wellConnected) continue;
+      const gain = linkWeight[c] - resolution * k * cTotal / totalStrength;
+      if (gain > bestGain + EPSILON) {
+        best = c;
+        bestGain = gain;
+      }
+    }
+
+    if (best >= 0) {
+      const own = refined[i];
+      external[best] += external[own] - 2 * linkWeight[best];
+      refinedTotals[best] += k;
+      refinedTotals[own] = 0;
+      refinedSizes[best]++;
+      refinedSizes[own] = 0;
+      refined[i] = best;
+    }
+    for (const c of touched) linkWeight[c] = 0;
+  }
+
+  return compact(refined);
+};
+
+// Collapse every group of `assignment` into a single weighted node
+const aggregate = (graph: WeightedGraph, assignment: Int32Array, groupCount: number): WeightedGraph => {
+  const adjacency: Map<number, number>[] = Array.from({ length: groupCount }, () => new Map());
+  const loops = new Float64Array(groupCount);
+
+  for (let i = 0; i < graph.size; i++) {
+    const ci = assignment[i];
+    loops[ci] += graph.loops[i];
+    graph.adjacency[i].forEach((w, j) => {
+      const cj = assignment[j];
+      if (ci === cj) {
+        loops[ci] += w / 2; // Each internal edge is visited from both ends
+      } else {
+        adjacency[ci].set(cj, (adjacency[ci].get(cj) || 0) + w);
+      }
+    });
+  }
+
+  return withStrength(groupCount, adjacency, loops);
+};
+
+const countGroups = (assignment: Int32Array): number => {
+  let max = -1;
+  for (let i = 0; i < assignment.length; i++) max = Math.max(max, assignment[i]);
+  return max + 1;
+};
+
+const runModularityOptimization = (
+  index: GraphIndex,
+  resolution: number,
+  refine: boolean,
+  rng: Random
+): number[] => {
+  let graph = buildWeightedGraph(index);
+  if (graph.totalStrength === 0) return Array.from({ length: index.size }, (_, i) => i);
+
+  // Aggregate node that each original node currently belongs to
+  let membership = Int32Array.from({ length: index.size }, (_, i) => i);
+  let community = Int32Array.from({ length: graph.size }, (_, i) => i);
+
+  while (true) {
+    const improved = moveNodes(graph, community, resolution, rng);
+    community = compact(community);
+    const communityCount = countGroups(community);
+    if (!improved || communityCount === graph.size) break;
+
+    let collapseBy = community;
+    let nextCommunity: Int32Array;
+    if (refine) {
+      const refined = refinePartition(graph, community, resolution, rng);
+      const refinedCount = countGroups(refined);
+      if (refinedCount < graph.size) {
+        collapseBy = refined;
+      }
+    }
+
+    const groupCount = countGroups(collapseBy);
+    if (collapseBy === community) {
+      nextCommunity = Int32Array.from({ length: groupCount }, (_, i) => i);
+    } else {
+      // Aggregated nodes start in the community their refined group came from
+      nextCommunity = new Int32Array(groupCount);
+      for (let i = 0; i < graph.size; i++) nextCommunity[collapseBy[i]] = community[i];
+    }
+
+    membership = membership.map(m => collapseBy[m]);
+    graph = aggregate(graph, collapseBy, groupCount);
+    community = nextCommunity;
+  }
+
+  return Array.from(compact(Array.from(membership, m => community[m])));
+};
+
+export const louvain = (index: GraphIndex, resolution: number = 1, rng: Random = Math.random): number[] =>
+  runModularityOptimization(index, resolution, false, rng);
+
+export const leiden = (index: GraphIndex, resolution: number = 1, rng: Random = Math.random): number[] =>
+  runModularityOptimization(index, resolution, true, rng);
+
+export const labelPropagation = (index: GraphIndex, rng: Random = Math.random): number[] => {
+  // Init each node with its own label
+  const labels = Int32Array.from({ length: index.size }, (_, i) => i);
+  const frequency = new Map<number, number>();
+
+  // Run propagation
+  for (let pass = 0; pass < 5; pass++) {
+    for (const i of shuffledRange(index.size, rng)) {
+      const neighbors = index.neighbors[i];
+      const weights = index.neighborWeights[i];
+      if (neighbors.length === 0) continue;
+
+      // Most frequent (or heaviest) neighbor label; ties go to the first one seen
+      frequency.clear();
+      let maxFreq = 0;
+      let bestLabel = labels[i];
+      for (let n = 0; n < neighbors.length; n++) {
+        const j = neighbors[n];
+        const count = (frequency.get(labels[j]) || 0) + weights[n];
+        frequency.set(labels[j], count);
+        if (count > maxFreq) {
+          maxFreq = count;
+          bestLabel = labels[j];
+        }
+      }
+      labels[i] = bestLabel;
+    }
+  }
+
+  return Array.from(compact(labels));
+};
+
+// Label propagation was the original detector, so earlier results and projects reproduce
+export const DEFAULT_COMMUNITY_OPTIONS: Required<CommunityOptions> = {
+  algorithm: CommunityAlgorithm.LABEL_PROPAGATION,
+  resolution: 1,
+};
+
+export const detectCommunities = (
+  index: GraphIndex,
+  options: CommunityOptions = {},
+  rng: Random = Math.random
+): number[] => {
+  const { algorithm = DEFAULT_COMMUNITY_OPTIONS.algorithm, resolution = DEFAULT_COMMUNITY_OPTIONS.resolution } = options;
+  switch (algorithm) {
+    case CommunityAlgorithm.LOUVAIN:
+      return louvain(index, resolution, rng);
+    case CommunityAlgorithm.LEIDEN:
+      return leiden(index, resolution, rng);
+    default:
+      return labelPropagation(index, rng);
+  }
+};
+
+/**
+ * Newman–Girvan modularity Q of a partition, treating the graph as undirected.
+ * `groups` is indexed like the graph index. A resolution of 1 gives the classic definition.
+ */
+export const computeModularity = (index: GraphIndex, groups: number[], resolution: number = 1): number => {
+  const graph = buildWeightedGraph(index);
+  if (graph.totalStrength === 0) return 0;
+
+  const internal = new Map<number, number>();
+  const totals = new Map<number, number>();
+  for (let i = 0; i < graph.size; i++) {
+    const g = groups[i];
+    totals.set(g, (totals.get(g) || 0) + graph.strength[i]);
+    let inside = 2 * graph.loops[i];
+    graph.adjacency[i].forEach((w, j) => {
+      if (groups[j] === g) inside += w;
+    });
+    internal.set(g, (internal.get(g) || 0) + inside);
+  }
+
+  let q = 0;
+  totals.forEach((total, g) => {
+    const share = total / graph.totalStrength;
+    q += (internal.get(g) || 0) / graph.totalStrength - resolution * share * share;
+  });
+  return q;
+};
@@ -0,0 +1,97 @@
+import { schemeTableau10 } from 'd3';
+import { GraphData, GraphMode } from '../types';
+import { buildGraphIndex } from './graphIndex';
+
+const TOP_MEMBERS = 3;
+const TOP_NEIGHBORS = 3;
+
+// Fill used for a community everywhere it is drawn: the graph, the legend and exports
+export const communityColor = (group: number | undefined): string =>
+  schemeTableau10[(group ?? 0) % schemeTableau10.length];
+
+export interface CommunityNeighbor {
+  group: number;
+  links: number; // Follows between the two communities, either way
+}
+
+export interface CommunityStats {
+  group: number;
+  size: number;
+  internalLinks: number; // Distinct tied pairs inside the community (ordered pairs when directed)
+  density: number; // Internal ties over the possible ones, as for the whole graph
+  conductance: number; // Weight of ties leaving over the smaller side's volume; 0 when isolated
+  topMembers: string[]; // Highest PageRank first
+  neighbors: CommunityNeighbor[]; // Most connected communities first
+}
+
+/**
+ * Per-community summary of a graph whose `Node.group` has been set by the
+ * analysis. Density follows the graph-level definition for the current mode;
+ * conductance (cut ÷ min(vol(S), vol(V∖S))) is measured on the undirected
+ * graph, with edge weights when they are enabled. Largest communities first.
+ */
+export const computeCommunityStats = (data: GraphData, mode: GraphMode): CommunityStats[] => {
+  const nodes = data.nodes;
+  const index = buildGraphIndex(nodes, data.links, mode);
+  const groupOf = nodes.map(n => n.group ?? 0);
+
+  const stats = new Map<number, CommunityStats>();
+  const volume = new Map<number, number>();
+  const cut = new Map<number, number>();
+  const between = new Map<number, Map<number, number>>();
+  let totalVolume = 0;
+
+  nodes.forEach((n, i) => {
+    const group = groupOf[i];
+    if (!stats.has(group)) {
+      stats.set(group, { group, size: 0, internalLinks: 0, density: 0, conductance: 0, topMembers: [], neighbors: [] });
+      volume.set(group, 0);
+      cut.set(group, 0);
+      between.set(group, new Map());
+    }
+    stats.get(group)!.size++;
+
+    const ties = mode.directed ? index.outNeighbors[i] : index.neighbors[i];
+    ties.forEach(j => { if (groupOf[j] === group) stats.get(group)!.internalLinks++; });
+
+    index.neighbors[i].forEach((j, k) => {
+      const weight = index.neighborWeights[i][k];
+      volume.set(group, volume.get(group)! + weight);
+      totalVolume += weight;
+      if (groupOf[j] !== group) cut.set(group, cut.get(group)! + weight);
+    });
+  });
+
+  // Every parallel follow counts toward the ties between two communities
+  for (let e = 0; e < index.sources.length; e++) {
+    const a = groupOf[index.sources[e]];
+    const b = groupOf[index.targets[e]];
+    if (a === b) continue;
+    between.get(a)!.set(b, (between.get(a)!.get(b) ?? 0) + 1);
+    between.get(b)!.set(a, (between.get(b)!.get(a) ?? 0) + 1);
+  }
+
+  const members = new Map<number, number[]>();
+  nodes.forEach((_, i) => {
+    if (!members.has(groupOf[i])) members.set(groupOf[i], []);
+    members.get(groupOf[i])!.push(i);
+  });
+
+  stats.forEach(s => {
+    const n = s.size;
+    // Undirected neighbor lists see each internal pair from both ends
+    if (!mode.directed) s.internalLinks /= 2;
+    s.density = n > 1 ? (mode.directed ? s.internalLinks : 2 * s.internalLinks) / (n * (n - 1)) : 0;
+    const smaller = Math.min(volume.get(s.group)!, totalVolume - volume.get(s.group)!);
+    s.conductance = smaller > 0 ? cut.get(s.group)! / smaller : 0;
+    s.topMembers = members.get(s.group)!
+      .sort((a, b) => nodes[b].pagerank - nodes[a].pagerank)
+      .slice(0, TOP_MEMBERS)
+      .map(i => nodes[i].id);
+    s.neighbors = Array.from(between.get(s.group)!, ([group, links]) => ({ group, links }))
+      .sort((a, b) => b.links - a.links || a.group - b.group)
+      .slice(0, TOP_NEIGHBORS);
+  });
+
+  return Array.from(stats.values()).sort((a, b) => b.size - a.size || a.group - b.group);
+};
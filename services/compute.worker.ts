@@ -0,0 +1,24 @@
+import { runComputeTask, ComputeRequest, ComputeResult } from './computeTasks';
+
+export type ComputeWorkerResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; result: ComputeResult }
+  | { type: 'error'; message: string };
+
+const post = (message: ComputeWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ComputeRequest>) => {
+  let lastPercent = -1;
+  try {
+    const result = runComputeTask(event.data, fraction => {
+      // Only forward whole-percent changes so the main thread isn't flooded
+      const percent = Math.floor(fraction * 100);
+      if (percent === lastPercent) return;
+      lastPercent = percent;
+      post({ type: 'progress', fraction });
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
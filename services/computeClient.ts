@@ -0,0 +1,107 @@
+import { GraphData, GraphMode, DiffusionOptions, InfluenceOptions, LayoutOptions, Link } from '../types';
+import { getLinkNodeId } from './graphIndex';
+import { DiffusionResult } from './diffusion';
+import { InfluenceComparison } from './influence';
+import { BridgeRecommendation } from './bridges';
+import { LayoutPosition } from './layout';
+import { runComputeTask, ComputeRequest, ComputeResult } from './computeTasks';
+import type { ComputeWorkerResponse } from './compute.worker';
+
+export interface ComputeJob<T> {
+  promise: Promise<T | null>; // Resolves to null when cancelled
+  cancel: () => void;
+}
+
+/**
+ * Runs an on-demand simulation, search or static layout in its own worker, the same way runAnalysis does:
+ * cancelling terminates the worker mid-run. Falls back to a synchronous run
+ * where Web Workers are unavailable.
+ */
+const runCompute = <T extends ComputeResult>(
+  request: ComputeRequest,
+  onProgress: (fraction: number) => void
+): ComputeJob<T> => {
+  // D3 replaces link endpoints with node objects; send plain ids instead
+  const links: Link[] = request.data.links.map(l => ({
+    ...l,
+    source: getLinkNodeId(l.source),
+    target: getLinkNodeId(l.target)
+  }));
+  const message: ComputeRequest = { ...request, data: { nodes: request.data.nodes, links } };
+
+  if (typeof Worker === 'undefined') {
+    const promise = new Promise<T>(resolve => resolve(runComputeTask(message, onProgress) as T));
+    return { promise, cancel: () => {} };
+  }
+
+  const worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: T | null) => void = () => {};
+
+  const promise = new Promise<T | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<ComputeWorkerResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case 'progress':
+          onProgress(response.fraction);
+          break;
+        case 'result':
+          worker.terminate();
+          resolve(response.result as T);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(response.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The worker stopped unexpectedly'));
+    };
+  });
+
+  worker.postMessage(message);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    }
+  };
+};
+
+export const runDiffusion = (
+  data: GraphData,
+  options: DiffusionOptions,
+  mode: GraphMode,
+  seed: number,
+  onProgress: (fraction: number) => void = () => {}
+): ComputeJob<DiffusionResult> => runCompute({ task: 'diffusion', data, options, mode, seed }, onProgress);
+
+export const runInfluence = (
+  data: GraphData,
+  options: InfluenceOptions,
+  mode: GraphMode,
+  seed: number,
+  onProgress: (fraction: number) => void = () => {}
+): ComputeJob<InfluenceComparison> => runCompute({ task: 'influence', data, options, mode, seed }, onProgress);
+
+export const runBridges = (
+  data: GraphData,
+  communityA: number,
+  communityB: number,
+  mode: GraphMode,
+  seed: number,
+  onProgress: (fraction: number) => void = () => {}
+): ComputeJob<BridgeRecommendation> => runCompute({ task: 'bridges', data, communityA, communityB, mode, seed }, onProgress);
+
+export const runLayout = (
+  data: GraphData,
+  options: LayoutOptions,
+  mode: GraphMode,
+  seed: number,
+  focusId: string | null,
+  onProgress: (fraction: number) => void = () => {}
+): ComputeJob<Map<string, LayoutPosition>> => runCompute({ task: 'layout', data, options, mode, seed, focusId }, onProgress);
@@ -0,0 +1,27 @@
+import { GraphData, GraphMode, DiffusionOptions, InfluenceOptions, LayoutOptions } from '../types';
+import { simulateDiffusion, DiffusionResult } from './diffusion';
+import { maximizeInfluence, InfluenceComparison } from './influence';
+import { recommendBridges, BridgeRecommendation } from './bridges';
+import { computeLayout, LayoutPosition } from './layout';
+
+// On-demand simulations, searches and static layouts that are too slow for the main thread on large graphs
+export type ComputeRequest =
+  | { task: 'diffusion'; data: GraphData; options: DiffusionOptions; mode: GraphMode; seed: number }
+  | { task: 'influence'; data: GraphData; options: InfluenceOptions; mode: GraphMode; seed: number }
+  | { task: 'bridges'; data: GraphData; communityA: number; communityB: number; mode: GraphMode; seed: number }
+  | { task: 'layout'; data: GraphData; options: LayoutOptions; mode: GraphMode; seed: number; focusId: string | null };
+
+export type ComputeResult = DiffusionResult | InfluenceComparison | BridgeRecommendation | Map<string, LayoutPosition>;
+
+export const runComputeTask = (request: ComputeRequest, onProgress: (fraction: number) => void): ComputeResult => {
+  switch (request.task) {
+    case 'diffusion':
+      return simulateDiffusion(request.data, request.options, request.mode, request.seed, onProgress);
+    case 'influence':
+      return maximizeInfluence(request.data, request.options, request.mode, request.seed, onProgress);
+    case 'bridges':
+      return recommendBridges(request.data, request.communityA, request.communityB, request.mode, request.seed, undefined, onProgress);
+    case 'layout':
+      return computeLayout(request.data, request.options, request.mode, request.seed, request.focusId, onProgress);
+  }
+};
@@ -0,0 +1,170 @@
+import { GraphIndex, successors } from './graphIndex';
+import { Random, shuffle } from './random';
+
+// Components larger than this get sampled BFS estimates for diameter and path length
+export const EXACT_PATH_LIMIT = 2000;
+export const DEFAULT_PATH_SAMPLES = 200;
+
+export interface ComponentResult {
+  componentOf: Int32Array; // Component id per node, ids ordered by descending size
+  sizes: number[];
+}
+
+export interface PathLengthResult {
+  diameter: number;
+  averagePathLength: number;
+  samples: number | null; // Number of BFS sources when estimated, null when exact
+}
+
+// Renumber so component 0 is the largest
+const orderBySize = (componentOf: Int32Array, count: number): ComponentResult => {
+  const sizes = new Array<number>(count).fill(0);
+  componentOf.forEach(c => sizes[c]++);
+  const order = sizes.map((_, c) => c).sort((a, b) => sizes[b] - sizes[a]);
+  const rank = new Int32Array(count);
+  order.forEach((c, r) => rank[c] = r);
+  return {
+    componentOf: componentOf.map(c => rank[c]),
+    sizes: order.map(c => sizes[c]),
+  };
+};
+
+// Weakly connected components (plain connected components when undirected)
+export const weaklyConnectedComponents = (index: GraphIndex): ComponentResult => {
+  const componentOf = new Int32Array(index.size).fill(-1);
+  const stack: number[] = [];
+  let count = 0;
+
+  for (let start = 0; start < index.size; start++) {
+    if (componentOf[start] >= 0) continue;
+    componentOf[start] = count;
+    stack.push(start);
+    while (stack.length > 0) {
+      const v = stack.pop()!;
+      for (const w of index.neighbors[v]) {
+        if (componentOf[w] < 0) {
+          componentOf[w] = count;
+          stack.push(w);
+        }
+      }
+    }
+    count++;
+  }
+
+  return orderBySize(componentOf, count);
+};
+
+// Tarjan's algorithm, iterative so deep follower chains can't overflow the call stack.
+// Undirected graphs follow both directions, giving the same result as the weak components.
+export const stronglyConnectedComponents = (index: GraphIndex): ComponentResult => {
+  const n = index.size;
+  const adjacency = successors(index).neighbors;
+  const order = new Int32Array(n).fill(-1);
+  const lowLink = new Int32Array(n);
+  const onStack = new Uint8Array(n);
+  const componentOf = new Int32Array(n).fill(-1);
+  const tarjanStack: number[] = [];
+  const callStack: { v: number; next: number }[] = [];
+  let counter = 0;
+  let count = 0;
+
+  for (let root = 0; root < n; root++) {
+    if (order[root] >= 0) continue;
+    callStack.push({ v: root, next: 0 });
+    order[root] = lowLink[root] = counter++;
+    tarjanStack.push(root);
+    onStack[root] = 1;
+
+    while (callStack.length > 0) {
+      const frame = callStack[callStack.length - 1];
+      const { v } = frame;
+      const out = adjacency[v];
+
+      if (frame.next < out.length) {
+        const w = out[frame.next++];
+        if (order[w] < 0) {
+          order[w] = lowLink[w] = counter++;
+          tarjanStack.push(w);
+          onStack[w] = 1;
+          callStack.push({ v: w, next: 0 });
+        } else if (onStack[w]) {
+          lowLink[v] = Math.min(lowLink[v], order[w]);
+        }
+        continue;
+      }
+
+      // All successors done: close the component if v is its root
+      if (lowLink[v] === order[v]) {
+        let w: number;
+        do {
+          w = tarjanStack.pop()!;
+          onStack[w] = 0;
+          componentOf[w] = count;
+        } while (w !== v);
+        count++;
+      }
+      callStack.pop();
+      if (callStack.length > 0) {
+        const parent = callStack[callStack.length - 1].v;
+        lowLink[parent] = Math.min(lowLink[parent], lowLink[v]);
+      }
+    }
+  }
+
+  return orderBySize(componentOf, count);
+};
+
+/**
+ * Hop-count diameter and average shortest-path length within one component
+ * (the members list), following edge direction when the index is directed.
+ * Uses BFS from every member up to EXACT_PATH_LIMIT, otherwise from `samples`
+ * random members — the diameter then becomes a lower-bound estimate.
+ */
+export const computePathLengths = (
+  index: GraphIndex,
+  members: number[],
+  rng: Random = Math.random,
+  samples: number = DEFAULT_PATH_SAMPLES,
+  onProgress?: (fraction: number) => void
+): PathLengthResult => {
+  if (members.length < 2) return { diameter: 0, averagePathLength: 0, samples: null };
+
+  const adjacency = successors(index).neighbors;
+  const inComponent = new Uint8Array(index.size);
+  members.forEach(v => inComponent[v] = 1);
+
+  const exact = members.length <= EXACT_PATH_LIMIT;
+  const sources = exact ? members : shuffle([...members], rng).slice(0, samples);
+
+  const dist = new Int32Array(index.size);
+  const queue = new Int32Array(index.size);
+  let diameter = 0;
+  let totalLength = 0;
+  let pairCount = 0;
+
+  sources.forEach((s, i) => {
+    dist.fill(-1);
+    dist[s] = 0;
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = s;
+    while (head < tail) {
+      const v = queue[head++];
+      for (const w of adjacency[v]) {
+        if (dist[w] >= 0 || !inComponent[w]) continue;
+        dist[w] = dist[v] + 1;
+        totalLength += dist[w];
+        pairCount++;
+        if (dist[w] > diameter) diameter = dist[w];
+        queue[tail++] = w;
+      }
+    }
+    onProgress?.((i + 1) / sources.length);
+  });
+
+  return {
+    diameter,
+    averagePathLength: pairCount > 0 ? totalLength / pairCount : 0,
+    samples: exact ? null : sources.length,
+  };
+};
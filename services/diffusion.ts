@@ -0,0 +1,201 @@
+import { GraphData, GraphMode, DiffusionModel, DiffusionOptions } from '../types';
+import { GraphIndex, buildGraphIndex } from './graphIndex';
+import { Random, createRng } from './random';
+
+export const DEFAULT_DIFFUSION_OPTIONS: Omit<DiffusionOptions, 'seeds'> = {
+  model: DiffusionModel.INDEPENDENT_CASCADE,
+  probability: 0.1,
+  recoveryRate: 0.2,
+  runs: 100,
+  maxSteps: 50,
+};
+
+export const DIFFUSION_MODEL_LABELS: Record<DiffusionModel, string> = {
+  [DiffusionModel.INDEPENDENT_CASCADE]: 'Independent Cascade',
+  [DiffusionModel.LINEAR_THRESHOLD]: 'Linear Threshold',
+  [DiffusionModel.SIR]: 'SIR',
+};
+
+/**
+ * Who hears from whom. A link source -> target means source follows target,
+ * so a post travels against link direction, from an account to its followers.
+ * Undirected graphs spread both ways.
+ */
+export interface DiffusionGraph {
+  size: number;
+  followers: number[][];
+  // Linear Threshold influence of a node on each follower: link weight over the
+  // follower's total weight of followed accounts, so each follower's inputs sum to 1
+  influence: number[][];
+}
+
+export interface SpreadRun {
+  activatedAt: Int32Array; // Step each node was first reached, -1 if never
+  recoveredAt: Int32Array; // SIR only: step each node recovered, -1 otherwise
+  reach: number[]; // Cumulative reached nodes per step, seeds at step 0
+}
+
+export interface ReachStats {
+  mean: number;
+  variance: number; // Sample variance across Monte Carlo runs
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface DiffusionResult {
+  options: DiffusionOptions;
+  nodeCount: number;
+  // Mean cumulative reach per step with a one standard deviation band
+  curve: { step: number; mean: number; band: [number, number] }[];
+  finalReach: ReachStats;
+  // First Monte Carlo run, kept for step-by-step playback
+  sample: { activatedAt: Map<string, number>; recoveredAt: Map<string, number>; steps: number };
+}
+
+export const prepareDiffusion = (index: GraphIndex): DiffusionGraph => {
+  const followers = index.directed ? index.inNeighbors : index.neighbors;
+  const weights = index.directed ? index.inWeights : index.neighborWeights;
+  const followed = index.directed ? index.outWeights : index.neighborWeights;
+  const totalFollowed = followed.map(list => list.reduce((sum, w) => sum + w, 0));
+  return {
+    size: index.size,
+    followers,
+    influence: followers.map((list, u) => list.map((v, j) => totalFollowed[v] > 0 ? weights[u][j] / totalFollowed[v] : 0)),
+  };
+};
+
+// One stochastic run of the chosen model from the given seed nodes
+export const runSpread = (
+  graph: DiffusionGraph,
+  seeds: number[],
+  options: Omit<DiffusionOptions, 'seeds' | 'runs'>,
+  rng: Random
+): SpreadRun => {
+  const { model, probability, recoveryRate, maxSteps } = options;
+  const { followers, influence } = graph;
+  const activatedAt = new Int32Array(graph.size).fill(-1);
+  const recoveredAt = new Int32Array(graph.size).fill(-1);
+
+  let frontier: number[] = [];
+  seeds.forEach(s => {
+    if (activatedAt[s] < 0) {
+      activatedAt[s] = 0;
+      frontier.push(s);
+    }
+  });
+  const reach = [frontier.length];
+
+  // Linear Threshold draws every node's threshold up front
+  const threshold = model === DiffusionModel.LINEAR_THRESHOLD ? Float64Array.from({ length: graph.size }, () => rng()) : null;
+  const pressure = threshold ? new Float64Array(graph.size) : null;
+
+  for (let step = 1; step <= maxSteps && frontier.length > 0; step++) {
+    const next: number[] = [];
+    let reached = 0;
+
+    frontier.forEach(u => followers[u].forEach((v, j) => {
+      if (activatedAt[v] >= 0) return;
+      if (threshold) {
+        pressure![v] += influence[u][j];
+        if (pressure![v] < threshold[v]) return;
+      } else if (rng() >= probability) {
+        return;
+      }
+      activatedAt[v] = step;
+      next.push(v);
+      reached++;
+    }));
+
+    // SIR: the infected stay contagious until they recover
+    if (model === DiffusionModel.SIR) {
+      frontier.forEach(u => {
+        if (rng() < recoveryRate) {
+          recoveredAt[u] = step;
+        } else {
+          next.push(u);
+        }
+      });
+    }
+
+    frontier = next;
+    reach.push(reach[reach.length - 1] + reached);
+  }
+
+  return { activatedAt, recoveredAt, reach };
+};
+
+export const summarizeReach = (values: number[]): ReachStats => {
+  const count = values.length;
+  if (count === 0) return { mean: 0, variance: 0, stdDev: 0, min: 0, max: 0 };
+  const mean = values.reduce((sum, v) => sum + v, 0) / count;
+  const variance = count > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (count - 1) : 0;
+  return {
+    mean,
+    variance,
+    stdDev: Math.sqrt(variance),
+    min: values.reduce((m, v) => Math.min(m, v), Infinity),
+    max: values.reduce((m, v) => Math.max(m, v), -Infinity),
+  };
+};
+
+/**
+ * Monte Carlo diffusion over the current graph: `runs` independent spreads,
+ * each with its own random stream derived from `seed`, summarized as the mean
+ * reach curve and the distribution of final reach. `onProgress` follows the runs.
+ */
+export const simulateDiffusion = (
+  data: GraphData,
+  options: DiffusionOptions,
+  mode: GraphMode,
+  seed: number,
+  onProgress: (fraction: number) => void = () => {}
+): DiffusionResult => {
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const graph = prepareDiffusion(index);
+  const seeds = options.seeds
+    .map(id => index.indexOf.get(id))
+    .filter((i): i is number => i !== undefined);
+
+  const runs: SpreadRun[] = [];
+  const runCount = Math.max(1, options.runs);
+  for (let r = 0; r < runCount; r++) {
+    runs.push(runSpread(graph, seeds, options, createRng(seed, `diffusion:${r}`)));
+    onProgress((r + 1) / runCount);
+  }
+
+  const steps = runs.reduce((m, run) => Math.max(m, run.reach.length), 0);
+  const curve = Array.from({ length: steps }, (_, step) => {
+    const stats = summarizeReach(runs.map(run => run.reach[Math.min(step, run.reach.length - 1)]));
+    return { step, mean: stats.mean, band: [Math.max(0, stats.mean - stats.stdDev), stats.mean + stats.stdDev] as [number, number] };
+  });
+
+  const sample = runs[0];
+  const activatedAt = new Map<string, number>();
+  const recoveredAt = new Map<string, number>();
+  data.nodes.forEach((node, i) => {
+    if (sample.activatedAt[i] >= 0) activatedAt.set(node.id, sample.activatedAt[i]);
+    if (sample.recoveredAt[i] >= 0) recoveredAt.set(node.id, sample.recoveredAt[i]);
+  });
+
+  return {
+    options,
+    nodeCount: index.size,
+    curve,
+    finalReach: summarizeReach(runs.map(run => run.reach[run.reach.length - 1])),
+    sample: { activatedAt, recoveredAt, steps: sample.reach.length - 1 },
+  };
+};
+
+export type DiffusionState = 'seed' | 'active' | 'recovered';
+
+// State of every reached node after `step` steps of the sample run
+export const diffusionFrame = (result: DiffusionResult, step: number): Map<string, DiffusionState> => {
+  const frame = new Map<string, DiffusionState>();
+  result.sample.activatedAt.forEach((at, id) => {
+    if (at > step) return;
+    const recovered = result.sample.recoveredAt.get(id);
+    frame.set(id, recovered !== undefined && recovered <= step ? 'recovered' : at === 0 ? 'seed' : 'active');
+  });
+  return frame;
+};
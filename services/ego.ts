@@ -0,0 +1,153 @@
+import { Node, Link, GraphData, GraphMode, EgoOptions, EgoDirection } from '../types';
+import { buildGraphIndex, getLinkNodeId } from './graphIndex';
+
+export const MAX_EGO_RADIUS = 3;
+
+export const DEFAULT_EGO_OPTIONS: EgoOptions = { radius: 1, direction: EgoDirection.BOTH };
+
+export interface EgoNetwork {
+  egoId: string;
+  nodes: Node[]; // Same objects as the full graph, so positions carry over
+  links: Link[]; // Every link among those nodes (induced subgraph)
+  hops: Map<string, number>; // Distance of each member from the ego
+}
+
+export interface EgoMetrics {
+  alters: number; // Members other than the ego
+  altersByHop: number[]; // Index 0 is one hop away
+  alterTies: number; // Distinct connected pairs among alters
+  density: number; // alterTies over possible alter pairs
+  // Burt's structural holes, over the ego's direct contacts (nx.effective_size / nx.constraint)
+  effectiveSize: number;
+  efficiency: number; // effectiveSize / number of direct contacts
+  constraint: number;
+}
+
+/**
+ * Members of the ego network within `radius` hops, walking incoming links
+ * (followers), outgoing links (following) or both. Undirected graphs always
+ * walk both. Mirrors nx.ego_graph, which keeps all links among the members.
+ */
+export const extractEgoNetwork = (
+  data: GraphData,
+  egoId: string,
+  options: EgoOptions,
+  directed: boolean
+): EgoNetwork => {
+  const walkIn = !directed || options.direction !== EgoDirection.FOLLOWING;
+  const walkOut = !directed || options.direction !== EgoDirection.FOLLOWERS;
+  const radius = Math.max(1, Math.min(MAX_EGO_RADIUS, Math.round(options.radius)));
+
+  const next = new Map<string, string[]>();
+  const addStep = (from: string, to: string) => {
+    if (!next.has(from)) next.set(from, []);
+    next.get(from)!.push(to);
+  };
+  data.links.forEach(l => {
+    const sId = getLinkNodeId(l.source);
+    const tId = getLinkNodeId(l.target);
+    if (walkOut) addStep(sId, tId);
+    if (walkIn) addStep(tId, sId);
+  });
+
+  const hops = new Map<string, number>([[egoId, 0]]);
+  let frontier = [egoId];
+  for (let hop = 1; hop <= radius && frontier.length > 0; hop++) {
+    const reached: string[] = [];
+    frontier.forEach(id => (next.get(id) ?? []).forEach(other => {
+      if (hops.has(other)) return;
+      hops.set(other, hop);
+      reached.push(other);
+    }));
+    frontier = reached;
+  }
+
+  return {
+    egoId,
+    nodes: data.nodes.filter(n => hops.has(n.id)),
+    links: data.links.filter(l => hops.has(getLinkNodeId(l.source)) && hops.has(getLinkNodeId(l.target))),
+    hops,
+  };
+};
+
+/**
+ * Ego density over the members of the ego network, plus Burt's effective size
+ * and constraint. Those two use the ego's direct contacts in the full graph in
+ * either direction (as NetworkX does), with mutual tie strength a_uv + a_vu
+ * taken from Link.value when the mode is weighted.
+ */
+export const computeEgoMetrics = (data: GraphData, ego: EgoNetwork, mode: GraphMode): EgoMetrics => {
+  const alterIds = new Set(ego.nodes.map(n => n.id));
+  alterIds.delete(ego.egoId);
+
+  const radius = Array.from(ego.hops.values()).reduce((m, hop) => Math.max(m, hop), 0);
+  const altersByHop = new Array<number>(radius).fill(0);
+  ego.hops.forEach(hop => { if (hop > 0) altersByHop[hop - 1]++; });
+
+  const pairs = new Set<string>();
+  ego.links.forEach(l => {
+    const sId = getLinkNodeId(l.source);
+    const tId = getLinkNodeId(l.target);
+    if (sId === tId || !alterIds.has(sId) || !alterIds.has(tId)) return;
+    pairs.add(sId < tId ? `${sId}\u0000${tId}` : `${tId}\u0000${sId}`);
+  });
+  const alters = alterIds.size;
+  const density = alters > 1 ? pairs.size / ((alters * (alters - 1)) / 2) : 0;
+
+  // Structural holes on the full graph; a tie's strength sums both directions,
+  // so a mutual follow weighs twice a one-way follow
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const v = index.indexOf.get(ego.egoId);
+  const contacts = v === undefined ? [] : index.neighbors[v];
+  const tieCache = new Map<number, { ties: Map<number, number>; total: number; strongest: number }>();
+  const tiesOf = (u: number) => {
+    if (!tieCache.has(u)) {
+      const ties = new Map<number, number>();
+      const add = (w: number, weight: number) => ties.set(w, (ties.get(w) ?? 0) + weight);
+      index.outNeighbors[u].forEach((w, i) => add(w, index.outWeights[u][i]));
+      index.inNeighbors[u].forEach((w, i) => add(w, index.inWeights[u][i]));
+      const strengths = Array.from(ties.values());
+      tieCache.set(u, {
+        ties,
+        total: strengths.reduce((sum, w) => sum + w, 0),
+        strongest: strengths.reduce((m, w) => Math.max(m, w), 0),
+      });
+    }
+    return tieCache.get(u)!;
+  };
+  // Share of u's tie strength invested in w, and tie strength relative to u's strongest tie
+  const proportional = (u: number, w: number) => {
+    const { ties, total } = tiesOf(u);
+    return (ties.get(w) ?? 0) / (total || 1);
+  };
+  const marginal = (u: number, w: number) => {
+    const { ties, strongest } = tiesOf(u);
+    return (ties.get(w) ?? 0) / (strongest || 1);
+  };
+
+  let effectiveSize = 0;
+  let constraint = 0;
+  if (v !== undefined) {
+    contacts.forEach(u => {
+      let redundancy = 0;
+      let indirect = 0;
+      contacts.forEach(w => {
+        if (w === u) return;
+        redundancy += proportional(v, w) * marginal(u, w);
+        indirect += proportional(v, w) * proportional(w, u);
+      });
+      effectiveSize += 1 - redundancy;
+      constraint += (proportional(v, u) + indirect) ** 2;
+    });
+  }
+
+  return {
+    alters,
+    altersByHop,
+    alterTies: pairs.size,
+    density,
+    effectiveSize,
+    efficiency: contacts.length > 0 ? effectiveSize / contacts.length : 0,
+    constraint,
+  };
+};
@@ -1,4 +1,7 @@
-import { Node, Link } from '../types';
+import { Node, Link, AttributeMap, GraphMode } from '../types';
+import { getLinkNodeId, DEFAULT_GRAPH_MODE } from './graphIndex';
+import { serializeProject, ProjectState } from './projectFile';
+import { communityColor } from './communityStats';
 
 export const downloadFile = (content: string, filename: string, mimeType: string) => {
   const blob = new Blob([content], { type: mimeType });
@@ -12,51 +15,242 @@ export const downloadFile = (content: string, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 };
 
-export const exportNodesCSV = (nodes: Node[]) => {
-  const headers = ['id', 'degree', 'inDegree', 'outDegree', 'pagerank', 'betweenness', 'community_group'];
+// Quoted so IDs may contain commas, with embedded quotes doubled as RFC 4180 requires
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+export const exportNodesCSV = (nodes: Node[], fileName: string = 'network_metrics.csv') => {
+  const headers = [
+    'id', 'degree', 'inDegree', 'outDegree', 'pagerank', 'betweenness',
+    'closeness', 'harmonic', 'eigenvector', 'katz', 'hub', 'authority', 'coreness',
+    'clustering', 'triangles', 'reciprocity', 'community_group'
+  ];
   const rows = nodes.map(n => [
-    `"${n.id}"`, // Quote IDs to handle potential commas
+    csvField(n.id),
     n.degree,
     n.inDegree,
     n.outDegree,
     n.pagerank.toFixed(6),
     n.betweenness.toFixed(6),
+    n.closeness.toFixed(6),
+    n.harmonic.toFixed(6),
+    n.eigenvector.toFixed(6),
+    n.katz.toFixed(6),
+    n.hub.toFixed(6),
+    n.authority.toFixed(6),
+    n.coreness,
+    n.clustering.toFixed(6),
+    n.triangles,
+    n.reciprocity.toFixed(6),
     n.group
   ].join(','));
   
   const csvContent = [headers.join(','), ...rows].join('\n');
-  downloadFile(csvContent, 'network_metrics.csv', 'text/csv');
+  downloadFile(csvContent, fileName, 'text/csv');
 };
 
-export const exportEdgesCSV = (links: Link[]) => {
-  const headers = ['source', 'target'];
+export const exportEdgesCSV = (links: Link[], fileName: string = 'edge_list.csv') => {
+  // Weights and follow times (as ISO dates) use column names the edge-list importer reads back
+  const dated = links.some(l => typeof l.timestamp === 'number');
+  const headers = dated ? ['source', 'target', 'weight', 'timestamp'] : ['source', 'target', 'weight'];
   const rows = links.map(l => {
-     const source = typeof l.source === 'object' ? (l.source as Node).id : l.source;
-     const target = typeof l.target === 'object' ? (l.target as Node).id : l.target;
-     return `"${source}","${target}"`;
+     const fields = [csvField(getLinkNodeId(l.source)), csvField(getLinkNodeId(l.target)), l.value ?? 1];
+     if (dated) fields.push(typeof l.timestamp === 'number' ? new Date(l.timestamp).toISOString() : '');
+     return fields.join(',');
   });
   
   const csvContent = [headers.join(','), ...rows].join('\n');
-  downloadFile(csvContent, 'edge_list.csv', 'text/csv');
-};
-
-export const exportGraphJSON = (nodes: Node[], links: Link[]) => {
-    const cleanLinks = links.map(l => ({
-        source: typeof l.source === 'object' ? (l.source as Node).id : l.source,
-        target: typeof l.target === 'object' ? (l.target as Node).id : l.target
-    }));
-    
-    // Remove d3 simulation properties to keep JSON clean
-    const cleanNodes = nodes.map(({ x, y, vx, vy, ...rest }) => rest);
-    
-    const data = {
-        meta: {
-            generatedAt: new Date().toISOString(),
-            tool: "TwitterNet Analyst"
-        },
-        nodes: cleanNodes,
-        links: cleanLinks
-    };
-    
-    downloadFile(JSON.stringify(data, null, 2), 'network_graph.json', 'application/json');
-};
\ No newline at end of file
+  downloadFile(csvContent, fileName, 'text/csv');
+};
+
+export const exportProject = (state: ProjectState) => {
+    downloadFile(serializeProject(state), 'network_project.json', 'application/json');
+};
+
+// --- Gephi / NetworkX interchange formats ---
+
+type AttributeType = 'int' | 'double' | 'boolean' | 'string';
+
+interface AttributeColumn<T> {
+  name: string;
+  type: AttributeType;
+  value: (item: T) => string | number | boolean | undefined;
+}
+
+// Computed metrics and layout written as typed node attributes. Degrees are
+// weighted strengths, so fractional, when edge weights are in use.
+const nodeMetricColumns = (weighted: boolean): AttributeColumn<Node>[] => [
+  { name: 'label', type: 'string', value: n => n.label ?? n.id },
+  { name: 'degree', type: weighted ? 'double' : 'int', value: n => n.degree },
+  { name: 'in_degree', type: weighted ? 'double' : 'int', value: n => n.inDegree },
+  { name: 'out_degree', type: weighted ? 'double' : 'int', value: n => n.outDegree },
+  { name: 'pagerank', type: 'double', value: n => n.pagerank },
+  { name: 'betweenness', type: 'double', value: n => n.betweenness },
+  { name: 'closeness', type: 'double', value: n => n.closeness },
+  { name: 'harmonic', type: 'double', value: n => n.harmonic },
+  { name: 'eigenvector', type: 'double', value: n => n.eigenvector },
+  { name: 'katz', type: 'double', value: n => n.katz },
+  { name: 'hub', type: 'double', value: n => n.hub },
+  { name: 'authority', type: 'double', value: n => n.authority },
+  { name: 'coreness', type: 'int', value: n => n.coreness },
+  { name: 'clustering', type: 'double', value: n => n.clustering },
+  { name: 'triangles', type: 'int', value: n => n.triangles },
+  { name: 'reciprocity', type: 'double', value: n => n.reciprocity },
+  { name: 'community', type: 'int', value: n => n.group },
+  { name: 'x', type: 'double', value: n => n.x },
+  { name: 'y', type: 'double', value: n => n.y },
+];
+
+const EDGE_COLUMNS: AttributeColumn<Link>[] = [
+  { name: 'weight', type: 'double', value: l => l.value },
+  { name: 'timestamp', type: 'double', value: l => l.timestamp },
+];
+
+// Imported attributes ride along unless they clash with a computed column
+const customColumns = <T extends { attributes?: AttributeMap }>(
+  items: T[],
+  reserved: AttributeColumn<T>[]
+): AttributeColumn<T>[] => {
+  const taken = new Set(reserved.map(c => c.name));
+  const types = new Map<string, Set<string>>();
+  items.forEach(item => Object.entries(item.attributes ?? {}).forEach(([key, value]) => {
+    if (taken.has(key)) return;
+    if (!types.has(key)) types.set(key, new Set());
+    types.get(key)!.add(typeof value);
+  }));
+
+  return Array.from(types.entries()).map(([name, seen]) => ({
+    name,
+    type: seen.size === 1 && seen.has('number') ? 'double'
+      : seen.size === 1 && seen.has('boolean') ? 'boolean'
+      : 'string',
+    value: (item: T) => item.attributes?.[name],
+  }));
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const isPresent = (value: unknown): value is string | number | boolean =>
+  value !== undefined && value !== null && !(typeof value === 'number' && !Number.isFinite(value));
+
+const communityRgb = (group: number | undefined) => {
+  const hex = communityColor(group);
+  return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+};
+
+export const toGraphML = (nodes: Node[], links: Link[], mode: GraphMode = DEFAULT_GRAPH_MODE): string => {
+  const metricColumns = nodeMetricColumns(mode.weighted);
+  const nodeColumns = [...metricColumns, ...customColumns(nodes, metricColumns)];
+  const edgeColumns = [...EDGE_COLUMNS, ...customColumns(links, EDGE_COLUMNS)];
+
+  const keys = [
+    ...nodeColumns.map((c, i) => `  <key id="n${i}" for="node" attr.name="${escapeXml(c.name)}" attr.type="${c.type}"/>`),
+    ...edgeColumns.map((c, i) => `  <key id="e${i}" for="edge" attr.name="${escapeXml(c.name)}" attr.type="${c.type}"/>`),
+  ];
+
+  const dataLines = <T>(item: T, columns: AttributeColumn<T>[], prefix: string) => columns
+    .map((c, i) => {
+      const value = c.value(item);
+      return isPresent(value) ? `      <data key="${prefix}${i}">${escapeXml(String(value))}</data>` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+
+  const nodeXml = nodes.map(n =>
+    `    <node id="${escapeXml(n.id)}">\n${dataLines(n, nodeColumns, 'n')}\n    </node>`
+  );
+  const edgeXml = links.map((l, i) => {
+    const body = dataLines(l, edgeColumns, 'e');
+    const open = `    <edge id="e${i}" source="${escapeXml(getLinkNodeId(l.source))}" target="${escapeXml(getLinkNodeId(l.target))}"`;
+    return body ? `${open}>\n${body}\n    </edge>` : `${open}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys,
+    `  <graph id="G" edgedefault="${mode.directed ? 'directed' : 'undirected'}">`,
+    ...nodeXml,
+    ...edgeXml,
+    '  </graph>',
+    '</graphml>',
+  ].join('\n');
+};
+
+export const toGEXF = (nodes: Node[], links: Link[], mode: GraphMode = DEFAULT_GRAPH_MODE): string => {
+  // Label and position have native GEXF slots, everything else becomes an attribute
+  const allMetricColumns = nodeMetricColumns(mode.weighted);
+  const metricColumns = allMetricColumns.filter(c => !['label', 'x', 'y'].includes(c.name));
+  const nodeColumns = [...metricColumns, ...customColumns(nodes, allMetricColumns)];
+  const edgeColumns = [...EDGE_COLUMNS.filter(c => c.name !== 'weight'), ...customColumns(links, EDGE_COLUMNS)];
+  const gexfType = (type: AttributeType) => type === 'int' ? 'integer' : type;
+
+  const attributeDefs = <T>(columns: AttributeColumn<T>[]) => columns
+    .map((c, i) => `      <attribute id="${i}" title="${escapeXml(c.name)}" type="${gexfType(c.type)}"/>`)
+    .join('\n');
+
+  const attValues = <T>(item: T, columns: AttributeColumn<T>[]) => {
+    const values = columns
+      .map((c, i) => {
+        const value = c.value(item);
+        return isPresent(value) ? `          <attvalue for="${i}" value="${escapeXml(String(value))}"/>` : null;
+      })
+      .filter(Boolean);
+    return values.length ? `        <attvalues>\n${values.join('\n')}\n        </attvalues>` : '';
+  };
+
+  const nodeXml = nodes.map(n => {
+    const [r, g, b] = communityRgb(n.group);
+    const lines = [
+      `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.label ?? n.id)}">`,
+      attValues(n, nodeColumns),
+      `        <viz:color r="${r}" g="${g}" b="${b}"/>`,
+      isPresent(n.x) && isPresent(n.y) ? `        <viz:position x="${n.x}" y="${n.y}" z="0"/>` : '',
+      `        <viz:size value="${Math.max(5, Math.sqrt(n.pagerank) * 50).toFixed(2)}"/>`,
+      '      </node>',
+    ];
+    return lines.filter(Boolean).join('\n');
+  });
+
+  const edgeXml = links.map((l, i) => {
+    const weight = isPresent(l.value) ? ` weight="${l.value}"` : '';
+    const open = `      <edge id="${i}" source="${escapeXml(getLinkNodeId(l.source))}" target="${escapeXml(getLinkNodeId(l.target))}"${weight}`;
+    const body = attValues(l, edgeColumns);
+    return body ? `${open}>\n${body}\n      </edge>` : `${open}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    '    <creator>TwitterNet Analyst</creator>',
+    '  </meta>',
+    `  <graph mode="static" defaultedgetype="${mode.directed ? 'directed' : 'undirected'}">`,
+    '    <attributes class="node">',
+    attributeDefs(nodeColumns),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    attributeDefs(edgeColumns),
+    '    </attributes>',
+    '    <nodes>',
+    ...nodeXml,
+    '    </nodes>',
+    '    <edges>',
+    ...edgeXml,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+  ].join('\n');
+};
+
+export const exportGraphML = (nodes: Node[], links: Link[], mode: GraphMode = DEFAULT_GRAPH_MODE, fileName: string = 'network_graph.graphml') => {
+  downloadFile(toGraphML(nodes, links, mode), fileName, 'application/xml');
+};
+
+export const exportGEXF = (nodes: Node[], links: Link[], mode: GraphMode = DEFAULT_GRAPH_MODE, fileName: string = 'network_graph.gexf') => {
+  downloadFile(toGEXF(nodes, links, mode), fileName, 'application/xml');
+};
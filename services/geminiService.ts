@@ -14,8 +14,6 @@ export const analyzeNetworkWithGemini = async (
       .map(n => `${n.id} (PageRank: ${n.pagerank.toFixed(3)})`)
       .join(", ");
 
-    const communities = new Set(graphData.nodes.map(n => n.group)).size;
-    
     const prompt = `
       Act as a Senior Data Analyst specializing in Social Network Analysis (SNA).
       I have performed a network analysis on a Twitter follower dataset using NetworkX-like algorithms.
@@ -25,13 +23,20 @@ export const analyzeNetworkWithGemini = async (
       - Total Edges: ${metrics.edgeCount}
       - Graph Density: ${metrics.density.toFixed(4)}
       - Average Degree: ${metrics.avgDegree.toFixed(2)}
-      - Detected Communities: ${communities}
+      - Connected Components: ${metrics.componentCount} (giant component holds ${(metrics.giantComponentShare * 100).toFixed(1)}% of nodes)
+      - Diameter: ${metrics.diameter}${metrics.pathSamples !== null ? ' (sampled estimate)' : ''}
+      - Average Shortest Path Length: ${metrics.avgPathLength.toFixed(2)}
+      - Reciprocity (mutual follows): ${(metrics.reciprocity * 100).toFixed(1)}%
+      - Transitivity: ${metrics.transitivity.toFixed(3)} (average clustering ${metrics.avgClustering.toFixed(3)})
+      - Degree Assortativity: ${metrics.assortativity.toFixed(3)}
+      - Detected Communities: ${metrics.communityCount}
+      - Modularity (Q): ${metrics.modularity.toFixed(3)}
       
       Top Influencers (by PageRank):
       ${topInfluencers}
       
       Please provide a concise but professional analysis report (approx 200 words) covering:
-      1. **Network Structure**: Is it dense/sparse? What does this imply about information flow?
+      1. **Network Structure**: Is it dense/sparse and well connected? What do path lengths imply about information flow?
       2. **Key Players**: Who are the opinion leaders?
       3. **Community Insight**: Interpretation of the community count.
       
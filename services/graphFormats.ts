@@ -0,0 +1,401 @@
+import { GraphData, AttributeMap } from '../types';
+import { buildGraph, RawNode, RawLink } from './graphUtils';
+import { parseTimestamp } from './importUtils';
+
+export interface ParsedGraph {
+  data: GraphData;
+  directed: boolean;
+}
+
+export const GRAPH_FILE_EXTENSIONS = ['.graphml', '.gexf', '.gml', '.net', '.paj'];
+
+const LABEL_KEYS = ['label', 'name'];
+const WEIGHT_KEYS = ['weight', 'value'];
+
+type AttributeType = 'string' | 'number' | 'boolean';
+
+const toAttributeType = (declared: string | null): AttributeType => {
+  switch ((declared || '').toLowerCase()) {
+    case 'int': case 'integer': case 'long': case 'float': case 'double':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+};
+
+const convertValue = (raw: string, type: AttributeType): string | number | boolean => {
+  if (type === 'number') {
+    const n = Number(raw);
+    return Number.isNaN(n) ? raw : n;
+  }
+  if (type === 'boolean') return raw.trim().toLowerCase() === 'true';
+  return raw;
+};
+
+// Pull label, weight and layout position out of a generic attribute map
+const splitAttributes = (attributes: AttributeMap) => {
+  const rest: AttributeMap = { ...attributes };
+  let label: string | undefined;
+  let weight: number | undefined;
+  let x: number | undefined;
+  let y: number | undefined;
+
+  LABEL_KEYS.forEach(key => {
+    if (label === undefined && rest[key] !== undefined) {
+      label = String(rest[key]);
+      delete rest[key];
+    }
+  });
+  WEIGHT_KEYS.forEach(key => {
+    if (weight === undefined && typeof rest[key] === 'number') {
+      weight = rest[key] as number;
+      delete rest[key];
+    }
+  });
+  if (typeof rest.x === 'number' && typeof rest.y === 'number') {
+    x = rest.x;
+    y = rest.y;
+    delete rest.x;
+    delete rest.y;
+  }
+
+  return { label, weight, x, y, attributes: Object.keys(rest).length > 0 ? rest : undefined };
+};
+
+// Lift an edge's `timestamp` attribute (as written by the GraphML/GEXF exports) onto the link
+const takeTimestamp = (attributes: AttributeMap | undefined) => {
+  const raw = attributes?.timestamp;
+  const timestamp = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseTimestamp(raw) ?? undefined : undefined;
+  if (timestamp === undefined) return { timestamp, attributes };
+  const { timestamp: _, ...rest } = attributes!;
+  return { timestamp, attributes: Object.keys(rest).length > 0 ? rest : undefined };
+};
+
+// --- XML helpers ---
+
+const parseXml = (text: string, format: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (error) throw new Error(`Invalid ${format}: ${error.textContent?.trim().split('\n')[0] ?? 'malformed XML'}`);
+  return doc;
+};
+
+// Namespace-agnostic lookups so prefixed (viz:position) and default-namespace tags both match
+const descendants = (root: Element | Document, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+const children = (el: Element, localName: string): Element[] =>
+  Array.from(el.children).filter(child => child.localName === localName);
+
+// --- GraphML ---
+
+export const parseGraphML = (text: string): ParsedGraph => {
+  const doc = parseXml(text, 'GraphML');
+  const graph = descendants(doc, 'graph')[0];
+  if (!graph) throw new Error('Invalid GraphML: no <graph> element');
+
+  interface KeyDef { name: string; type: AttributeType; default?: string }
+  const keys = new Map<string, KeyDef>();
+  const defaults = { node: {} as AttributeMap, edge: {} as AttributeMap };
+
+  descendants(doc, 'key').forEach(key => {
+    const id = key.getAttribute('id');
+    if (!id) return;
+    const def: KeyDef = {
+      name: key.getAttribute('attr.name') || id,
+      type: toAttributeType(key.getAttribute('attr.type')),
+    };
+    const defaultEl = children(key, 'default')[0];
+    const scope = key.getAttribute('for');
+    if (defaultEl && (scope === 'node' || scope === 'edge')) {
+      defaults[scope][def.name] = convertValue(defaultEl.textContent || '', def.type);
+    }
+    keys.set(id, def);
+  });
+
+  const readData = (el: Element, base: AttributeMap): AttributeMap => {
+    const attributes: AttributeMap = { ...base };
+    children(el, 'data').forEach(data => {
+      const def = keys.get(data.getAttribute('key') || '');
+      if (!def) return;
+      attributes[def.name] = convertValue(data.textContent || '', def.type);
+    });
+    return attributes;
+  };
+
+  const directed = graph.getAttribute('edgedefault') !== 'undirected';
+
+  const nodes: RawNode[] = descendants(graph, 'node').map(el => {
+    const { label, x, y, attributes } = splitAttributes(readData(el, defaults.node));
+    return { id: el.getAttribute('id') || '', label, x, y, attributes };
+  }).filter(n => n.id !== '');
+
+  const links: RawLink[] = [];
+  descendants(graph, 'edge').forEach(el => {
+    const source = el.getAttribute('source');
+    const target = el.getAttribute('target');
+    if (!source || !target) return;
+    const { weight, attributes: rest } = splitAttributes(readData(el, defaults.edge));
+    const { timestamp, attributes } = takeTimestamp(rest);
+    links.push({ source, target, value: weight, timestamp, attributes });
+  });
+
+  return { data: buildGraph(nodes, links), directed };
+};
+
+// --- GEXF ---
+
+export const parseGEXF = (text: string): ParsedGraph => {
+  const doc = parseXml(text, 'GEXF');
+  const graph = descendants(doc, 'graph')[0];
+  if (!graph) throw new Error('Invalid GEXF: no <graph> element');
+
+  interface AttributeDef { title: string; type: AttributeType }
+  const definitions = { node: new Map<string, AttributeDef>(), edge: new Map<string, AttributeDef>() };
+  descendants(graph, 'attributes').forEach(group => {
+    const scope = group.getAttribute('class') === 'edge' ? 'edge' : 'node';
+    children(group, 'attribute').forEach(attr => {
+      const id = attr.getAttribute('id');
+      if (!id) return;
+      definitions[scope].set(id, {
+        title: attr.getAttribute('title') || id,
+        type: toAttributeType(attr.getAttribute('type')),
+      });
+    });
+  });
+
+  const readValues = (el: Element, scope: 'node' | 'edge'): AttributeMap => {
+    const attributes: AttributeMap = {};
+    children(el, 'attvalues').forEach(group => children(group, 'attvalue').forEach(value => {
+      const key = value.getAttribute('for') || value.getAttribute('id') || '';
+      const def = definitions[scope].get(key);
+      attributes[def?.title ?? key] = convertValue(value.getAttribute('value') || '', def?.type ?? 'string');
+    }));
+    return attributes;
+  };
+
+  // Edges are undirected unless the graph or the edge itself says otherwise (as in
+  // the GEXF spec and NetworkX). A mix is read as directed, with each undirected or
+  // mutual edge becoming a pair of opposite arcs.
+  const defaultType = graph.getAttribute('defaultedgetype') || 'undirected';
+  const edgeType = (el: Element) => el.getAttribute('type') || defaultType;
+  const edges = descendants(graph, 'edge');
+  const directed = edges.some(el => edgeType(el) === 'directed');
+
+  const nodes: RawNode[] = descendants(graph, 'node').map(el => {
+    const position = children(el, 'position')[0];
+    const attributes = readValues(el, 'node');
+    return {
+      id: el.getAttribute('id') || '',
+      label: el.getAttribute('label') ?? undefined,
+      x: position ? Number(position.getAttribute('x')) : undefined,
+      y: position ? Number(position.getAttribute('y')) : undefined,
+      attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    };
+  }).filter(n => n.id !== '');
+
+  const links: RawLink[] = [];
+  edges.forEach(el => {
+    const source = el.getAttribute('source');
+    const target = el.getAttribute('target');
+    if (!source || !target) return;
+    const weight = el.getAttribute('weight');
+    const attributes = readValues(el, 'edge');
+    const label = el.getAttribute('label');
+    if (label) attributes.label = label;
+    const { timestamp, attributes: rest } = takeTimestamp(attributes);
+    const link: RawLink = {
+      source,
+      target,
+      value: weight !== null && !Number.isNaN(Number(weight)) ? Number(weight) : undefined,
+      timestamp,
+      attributes: rest && Object.keys(rest).length > 0 ? rest : undefined,
+    };
+    links.push(link);
+    if (directed && edgeType(el) !== 'directed' && source !== target) {
+      links.push({ ...link, source: target, target: source });
+    }
+  });
+
+  return { data: buildGraph(nodes, links), directed };
+};
+
+// --- GML ---
+
+type GmlValue = string | number | GmlList;
+type GmlList = [string, GmlValue][];
+
+const tokenizeGml = (text: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"([^"]*)"|(\[|\])|([^\s\[\]"]+)/g;
+  const withoutComments = text.replace(/^\s*#.*$/gm, '');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(withoutComments)) !== null) {
+    // Keep quoted strings distinguishable from bare words
+    tokens.push(match[1] !== undefined ? `"${match[1]}` : match[0]);
+  }
+  return tokens;
+};
+
+const parseGmlList = (tokens: string[], position: { i: number }): GmlList => {
+  const list: GmlList = [];
+  while (position.i < tokens.length) {
+    const key = tokens[position.i++];
+    if (key === ']') return list;
+    const token = tokens[position.i++];
+    if (token === undefined) throw new Error(`Invalid GML: missing value for "${key}"`);
+    if (token === '[') {
+      list.push([key, parseGmlList(tokens, position)]);
+    } else if (token.startsWith('"')) {
+      list.push([key, token.slice(1)]);
+    } else {
+      const n = Number(token);
+      list.push([key, Number.isNaN(n) ? token : n]);
+    }
+  }
+  return list;
+};
+
+const gmlScalars = (list: GmlList): AttributeMap => {
+  const attributes: AttributeMap = {};
+  list.forEach(([key, value]) => {
+    if (!Array.isArray(value)) attributes[key] = value;
+  });
+  return attributes;
+};
+
+export const parseGML = (text: string): ParsedGraph => {
+  const root = parseGmlList(tokenizeGml(text), { i: 0 });
+  const graph = root.find(([key, value]) => key === 'graph' && Array.isArray(value))?.[1] as GmlList | undefined;
+  if (!graph) throw new Error('Invalid GML: no graph [ ... ] block');
+
+  const directed = graph.some(([key, value]) => key === 'directed' && value === 1);
+
+  const nodes: RawNode[] = [];
+  const links: RawLink[] = [];
+
+  graph.forEach(([key, value]) => {
+    if (!Array.isArray(value)) return;
+    const scalars = gmlScalars(value);
+
+    if (key === 'node') {
+      if (scalars.id === undefined) return;
+      const id = String(scalars.id);
+      delete scalars.id;
+      const graphics = value.find(([k, v]) => k === 'graphics' && Array.isArray(v))?.[1] as GmlList | undefined;
+      const { label, x, y, attributes } = splitAttributes({ ...scalars, ...(graphics ? gmlScalars(graphics) : {}) });
+      nodes.push({ id, label, x, y, attributes });
+    } else if (key === 'edge') {
+      if (scalars.source === undefined || scalars.target === undefined) return;
+      const source = String(scalars.source);
+      const target = String(scalars.target);
+      delete scalars.source;
+      delete scalars.target;
+      const { weight, attributes: rest } = splitAttributes(scalars);
+      const { timestamp, attributes } = takeTimestamp(rest);
+      links.push({ source, target, value: weight, timestamp, attributes });
+    }
+  });
+
+  return { data: buildGraph(nodes, links), directed };
+};
+
+// --- Pajek ---
+
+// Split a Pajek line on whitespace, honoring double-quoted labels
+const splitPajekLine = (line: string): string[] =>
+  (line.match(/"[^"]*"|\S+/g) || []).map(token => token.replace(/^"|"$/g, ''));
+
+export const parsePajek = (text: string): ParsedGraph => {
+  const vertexIds = new Map<string, string>(); // Pajek number -> node id
+  const nodes: RawNode[] = [];
+  const links: RawLink[] = [];
+  const edgeLinks: RawLink[] = []; // From *Edges sections, reversed too if the file also has arcs
+  const usedIds = new Set<string>();
+  let section: 'vertices' | 'arcs' | 'edges' | 'arcslist' | 'edgeslist' | null = null;
+  let sawArcs = false;
+  let sawEdges = false;
+
+  const resolve = (number: string) => vertexIds.get(number) ?? number;
+
+  text.split(/\r\n|\r|\n/).forEach(raw => {
+    const line = raw.trim();
+    if (!line || line.startsWith('%')) return;
+
+    if (line.startsWith('*')) {
+      const header = line.slice(1).split(/\s+/)[0].toLowerCase();
+      section = (['vertices', 'arcs', 'edges', 'arcslist', 'edgeslist'] as const).find(s => s === header) ?? null;
+      if (section === 'arcs' || section === 'arcslist') sawArcs = true;
+      if (section === 'edges' || section === 'edgeslist') sawEdges = true;
+      return;
+    }
+
+    const tokens = splitPajekLine(line);
+    switch (section) {
+      case 'vertices': {
+        const [number, label] = tokens;
+        // Like NetworkX, use the label as the node id unless it is missing or repeated;
+        // a number that is already some other vertex's label gets a suffix
+        let id = label && !usedIds.has(label) ? label : number;
+        for (let k = 2; usedIds.has(id); k++) id = `${number}_${k}`;
+        usedIds.add(id);
+        vertexIds.set(number, id);
+        nodes.push({ id, label });
+        break;
+      }
+      case 'arcs':
+      case 'edges': {
+        if (tokens.length < 2) return;
+        const weight = tokens[2] !== undefined ? Number(tokens[2]) : undefined;
+        const link = {
+          source: resolve(tokens[0]),
+          target: resolve(tokens[1]),
+          value: weight !== undefined && !Number.isNaN(weight) ? weight : undefined,
+        };
+        links.push(link);
+        if (section === 'edges') edgeLinks.push(link);
+        break;
+      }
+      case 'arcslist':
+      case 'edgeslist':
+        tokens.slice(1).forEach(target => {
+          const link = { source: resolve(tokens[0]), target: resolve(target) };
+          links.push(link);
+          if (section === 'edgeslist') edgeLinks.push(link);
+        });
+        break;
+    }
+  });
+
+  // A file with both arcs and edges is read as directed, as parseGEXF does, with
+  // each edge becoming a pair of opposite arcs
+  if (sawArcs) {
+    edgeLinks
+      .filter(l => l.source !== l.target)
+      .forEach(l => links.push({ ...l, source: l.target, target: l.source }));
+  }
+
+  if (nodes.length === 0 && links.length === 0) throw new Error('Invalid Pajek file: no *Vertices, *Arcs or *Edges found');
+
+  return { data: buildGraph(nodes, links), directed: sawArcs || !sawEdges };
+};
+
+// Dispatch on file extension; returns null for files handled by the CSV importer
+export const parseGraphFile = (fileName: string, text: string): ParsedGraph | null => {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+  switch (extension) {
+    case '.graphml':
+      return parseGraphML(text);
+    case '.gexf':
+      return parseGEXF(text);
+    case '.gml':
+      return parseGML(text);
+    case '.net':
+    case '.paj':
+      return parsePajek(text);
+    default:
+      return null;
+  }
+};
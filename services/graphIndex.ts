@@ -0,0 +1,124 @@
+import { Node, Link, GraphMode } from '../types';
+
+// Unweighted by default, so plain follow graphs keep the BFS-based path metrics
+export const DEFAULT_GRAPH_MODE: GraphMode = { directed: true, weighted: false };
+
+// Links may hold ids or, once D3 has resolved them, the node objects themselves
+export const getLinkNodeId = (endpoint: string | Node): string =>
+  typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+// Link.value when weights are honored and usable, otherwise 1
+export const getLinkWeight = (link: Link, weighted: boolean): number =>
+  weighted && typeof link.value === 'number' && Number.isFinite(link.value) && link.value >= 0 ? link.value : 1;
+
+/**
+ * Integer-indexed adjacency built once per analysis run, so algorithms can walk
+ * neighbors directly instead of scanning the link list.
+ * Node positions match the order of the `nodes` array passed in.
+ */
+export interface GraphIndex {
+  size: number;
+  indexOf: Map<string, number>;
+  directed: boolean;
+  weighted: boolean;
+  // Endpoints and weight of every link whose nodes both exist, parallel edges included
+  sources: Int32Array;
+  targets: Int32Array;
+  weights: Float64Array;
+  // De-duplicated neighbor lists without self-loops; the matching *Weights lists
+  // hold the summed weight of the collapsed edges (1 per neighbor when unweighted)
+  outNeighbors: number[][];
+  outWeights: number[][];
+  inNeighbors: number[][];
+  inWeights: number[][];
+  neighbors: number[][]; // Union of in and out
+  neighborWeights: number[][];
+}
+
+const collectNeighbors = (maps: Map<number, number>[]) => ({
+  neighbors: maps.map(m => Array.from(m.keys())),
+  weights: maps.map(m => Array.from(m.values())),
+});
+
+export const buildGraphIndex = (nodes: Node[], links: Link[], mode: GraphMode = DEFAULT_GRAPH_MODE): GraphIndex => {
+  const size = nodes.length;
+  const indexOf = new Map(nodes.map((node, i) => [node.id, i]));
+  const sources: number[] = [];
+  const targets: number[] = [];
+  const weights: number[] = [];
+  const outMaps: Map<number, number>[] = nodes.map(() => new Map());
+  const inMaps: Map<number, number>[] = nodes.map(() => new Map());
+  const undirectedMaps: Map<number, number>[] = nodes.map(() => new Map());
+
+  const add = (map: Map<number, number>, key: number, weight: number) =>
+    map.set(key, mode.weighted ? (map.get(key) || 0) + weight : 1);
+
+  links.forEach(link => {
+    const s = indexOf.get(getLinkNodeId(link.source));
+    const t = indexOf.get(getLinkNodeId(link.target));
+    if (s === undefined || t === undefined) return;
+    const weight = getLinkWeight(link, mode.weighted);
+    sources.push(s);
+    targets.push(t);
+    weights.push(weight);
+    if (s !== t) {
+      add(outMaps[s], t, weight);
+      add(inMaps[t], s, weight);
+      add(undirectedMaps[s], t, weight);
+      add(undirectedMaps[t], s, weight);
+    }
+  });
+
+  const out = collectNeighbors(outMaps);
+  const incoming = collectNeighbors(inMaps);
+  const undirected = collectNeighbors(undirectedMaps);
+
+  return {
+    size,
+    indexOf,
+    directed: mode.directed,
+    weighted: mode.weighted,
+    sources: Int32Array.from(sources),
+    targets: Int32Array.from(targets),
+    weights: Float64Array.from(weights),
+    outNeighbors: out.neighbors,
+    outWeights: out.weights,
+    inNeighbors: incoming.neighbors,
+    inWeights: incoming.weights,
+    neighbors: undirected.neighbors,
+    neighborWeights: undirected.weights,
+  };
+};
+
+// Neighbors reachable by following an edge, honoring the graph's direction
+export const successors = (index: GraphIndex): { neighbors: number[][]; weights: number[][] } =>
+  index.directed
+    ? { neighbors: index.outNeighbors, weights: index.outWeights }
+    : { neighbors: index.neighbors, weights: index.neighborWeights };
+
+/**
+ * Adjacency for shortest-path algorithms. Weights are read as distances (the
+ * NetworkX convention); parallel or reciprocal edges keep the shortest one.
+ * Every length is 1 when the graph is unweighted.
+ */
+export const pathAdjacency = (index: GraphIndex): { neighbors: number[][]; lengths: number[][] } => {
+  if (!index.weighted) {
+    const { neighbors } = successors(index);
+    return { neighbors, lengths: neighbors.map(list => list.map(() => 1)) };
+  }
+
+  const maps: Map<number, number>[] = Array.from({ length: index.size }, () => new Map());
+  const keepShortest = (from: number, to: number, length: number) => {
+    const current = maps[from].get(to);
+    if (current === undefined || length < current) maps[from].set(to, length);
+  };
+  for (let e = 0; e < index.sources.length; e++) {
+    const s = index.sources[e];
+    const t = index.targets[e];
+    if (s === t) continue;
+    keepShortest(s, t, index.weights[e]);
+    if (!index.directed) keepShortest(t, s, index.weights[e]);
+  }
+  const { neighbors, weights } = collectNeighbors(maps);
+  return { neighbors, lengths: weights };
+};
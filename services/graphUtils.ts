@@ -1,34 +1,104 @@
-import { Node, Link, GraphData, NetworkMetrics } from '../types';
+import { Node, Link, GraphData, NetworkMetrics, AnalysisOptions, AnalysisStage, AttributeMap } from '../types';
+import { buildGraphIndex, DEFAULT_GRAPH_MODE } from './graphIndex';
+import {
+  computeBetweenness,
+  computePageRank,
+  computeCloseness,
+  computeEigenvector,
+  computeKatz,
+  computeHits,
+  computeCoreness,
+  EXACT_BETWEENNESS_LIMIT,
+  DEFAULT_BETWEENNESS_SAMPLES,
+  DEFAULT_KATZ_ALPHA,
+} from './centrality';
+import { detectCommunities, computeModularity } from './community';
+import { computeClustering, computeReciprocity, computeAssortativity } from './clustering';
+import { weaklyConnectedComponents, stronglyConnectedComponents, computePathLengths } from './connectivity';
+import { createRng, DEFAULT_SEED } from './random';
 
-// Helper to create a unique list of nodes from links
-export const buildGraphFromLinks = (links: { source: string; target: string }[]): GraphData => {
+// Placeholder metrics before any graph is loaded; also the reference list of metric keys
+export const EMPTY_METRICS: NetworkMetrics = {
+  nodeCount: 0,
+  edgeCount: 0,
+  density: 0,
+  avgDegree: 0,
+  componentCount: 0,
+  strongComponentCount: 0,
+  giantComponentShare: 0,
+  diameter: 0,
+  avgPathLength: 0,
+  pathSamples: null,
+  modularity: 0,
+  communityCount: 0,
+  seed: DEFAULT_SEED,
+  pagerankIterations: 0,
+  pagerankConverged: true,
+  betweennessSamples: null,
+  katzAlpha: DEFAULT_KATZ_ALPHA,
+  triangleCount: 0,
+  transitivity: 0,
+  avgClustering: 0,
+  reciprocity: 0,
+  assortativity: 0,
+};
+
+export type ProgressCallback = (stage: AnalysisStage, fraction: number) => void;
+
+export interface RawLink {
+  source: string;
+  target: string;
+  value?: number;
+  timestamp?: number;
+  attributes?: AttributeMap;
+}
+
+export interface RawNode {
+  id: string;
+  label?: string;
+  attributes?: AttributeMap;
+  x?: number;
+  y?: number;
+}
+
+// A node with every metric zeroed, ready for calculateMetrics
+export const createNode = (id: string): Node => ({
+  id,
+  degree: 0,
+  inDegree: 0,
+  outDegree: 0,
+  betweenness: 0,
+  pagerank: 0,
+  closeness: 0,
+  harmonic: 0,
+  eigenvector: 0,
+  katz: 0,
+  hub: 0,
+  authority: 0,
+  coreness: 0,
+  clustering: 0,
+  triangles: 0,
+  reciprocity: 0,
+  group: 0
+});
+
+// Build graph data from explicit nodes (which may be isolated) plus links;
+// link endpoints missing from `nodes` are created on the fly
+export const buildGraph = (rawNodes: RawNode[], links: RawLink[]): GraphData => {
   const nodeMap = new Map<string, Node>();
   const processedLinks: Link[] = [];
 
+  const ensureNode = (id: string) => {
+    if (!nodeMap.has(id)) nodeMap.set(id, createNode(id));
+    return nodeMap.get(id)!;
+  };
+
+  rawNodes.forEach(raw => Object.assign(ensureNode(raw.id), raw));
+
   links.forEach(link => {
-    if (!nodeMap.has(link.source)) {
-      nodeMap.set(link.source, {
-        id: link.source,
-        degree: 0,
-        inDegree: 0,
-        outDegree: 0,
-        betweenness: 0,
-        pagerank: 0,
-        group: 0
-      });
-    }
-    if (!nodeMap.has(link.target)) {
-      nodeMap.set(link.target, {
-        id: link.target,
-        degree: 0,
-        inDegree: 0,
-        outDegree: 0,
-        betweenness: 0,
-        pagerank: 0,
-        group: 0
-      });
-    }
-    processedLinks.push({ source: link.source, target: link.target });
+    ensureNode(link.source);
+    ensureNode(link.target);
+    processedLinks.push({ ...link });
   });
 
   return {
@@ -37,102 +107,135 @@ export const buildGraphFromLinks = (links: { source: string; target: string }[])
   };
 };
 
-export const calculateMetrics = (data: GraphData): { updatedNodes: Node[], metrics: NetworkMetrics } => {
+// Helper to create a unique list of nodes from links
+export const buildGraphFromLinks = (links: RawLink[]): GraphData => buildGraph([], links);
+
+export const calculateMetrics = (
+  data: GraphData,
+  options: AnalysisOptions = {},
+  onProgress: ProgressCallback = () => {}
+): { updatedNodes: Node[], metrics: NetworkMetrics } => {
   const nodes = [...data.nodes];
   const links = data.links;
-  const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  const mode = options.mode ?? DEFAULT_GRAPH_MODE;
+  const index = buildGraphIndex(nodes, links, mode);
+  const { sources, targets, weights } = index;
+  const seed = options.seed ?? DEFAULT_SEED;
 
-  // 1. Degree Centrality
+  // 1. Degree Centrality (weighted strength when weights are enabled)
+  onProgress(AnalysisStage.DEGREE, 0);
   nodes.forEach(n => {
     n.degree = 0;
     n.inDegree = 0;
     n.outDegree = 0;
   });
 
-  links.forEach(link => {
-    const sourceId = typeof link.source === 'object' ? (link.source as Node).id : link.source;
-    const targetId = typeof link.target === 'object' ? (link.target as Node).id : link.target;
-    
-    const sourceNode = nodeMap.get(sourceId as string);
-    const targetNode = nodeMap.get(targetId as string);
-
-    if (sourceNode && targetNode) {
-      sourceNode.outDegree++;
-      sourceNode.degree++;
-      targetNode.inDegree++;
-      targetNode.degree++;
-    }
-  });
-
-  // 2. PageRank (Simplified Iterative)
-  // Init
-  nodes.forEach(n => n.pagerank = 1 / nodes.length);
-  const damping = 0.85;
-  for (let i = 0; i < 20; i++) { // 20 iterations
-    const newRanks = new Map<string, number>();
-    nodes.forEach(n => newRanks.set(n.id, (1 - damping) / nodes.length));
-    
-    links.forEach(link => {
-      const sourceId = typeof link.source === 'object' ? (link.source as Node).id : link.source as string;
-      const targetId = typeof link.target === 'object' ? (link.target as Node).id : link.target as string;
-      const source = nodeMap.get(sourceId);
-      
-      if (source && source.outDegree > 0) {
-        const share = (source.pagerank * damping) / source.outDegree;
-        const targetRank = newRanks.get(targetId) || 0;
-        newRanks.set(targetId, targetRank + share);
-      }
-    });
-    
-    nodes.forEach(n => n.pagerank = newRanks.get(n.id) || 0);
+  for (let e = 0; e < sources.length; e++) {
+    const sourceNode = nodes[sources[e]];
+    const targetNode = nodes[targets[e]];
+    sourceNode.outDegree += weights[e];
+    sourceNode.degree += weights[e];
+    targetNode.inDegree += weights[e];
+    targetNode.degree += weights[e];
   }
+  onProgress(AnalysisStage.DEGREE, 1);
 
-  // 3. Community Detection (Label Propagation)
-  // Init each node with its own label
-  const labels = new Map<string, string>();
-  nodes.forEach((n, i) => labels.set(n.id, i.toString()));
-
-  // Run propagation
-  for (let i = 0; i < 5; i++) {
-    const shuffledNodes = [...nodes].sort(() => Math.random() - 0.5);
-    shuffledNodes.forEach(node => {
-        const neighborLabels: string[] = [];
-        
-        // Find neighbors
-        links.forEach(l => {
-             const sId = typeof l.source === 'object' ? (l.source as Node).id : l.source as string;
-             const tId = typeof l.target === 'object' ? (l.target as Node).id : l.target as string;
-             if (sId === node.id) neighborLabels.push(labels.get(tId)!);
-             if (tId === node.id) neighborLabels.push(labels.get(sId)!);
-        });
-
-        if (neighborLabels.length > 0) {
-            // Find most frequent label
-            const frequency: Record<string, number> = {};
-            let maxFreq = 0;
-            let bestLabel = labels.get(node.id)!;
-            
-            neighborLabels.forEach(lbl => {
-                frequency[lbl] = (frequency[lbl] || 0) + 1;
-                if (frequency[lbl] > maxFreq) {
-                    maxFreq = frequency[lbl];
-                    bestLabel = lbl;
-                }
-            });
-            labels.set(node.id, bestLabel);
-        }
-    });
+  // 2. PageRank (optionally personalized toward a set of seed accounts)
+  const personalization = (options.pagerank?.personalization ?? [])
+    .map(id => index.indexOf.get(id))
+    .filter((i): i is number => i !== undefined);
+  const pagerank = computePageRank(
+    index,
+    { ...options.pagerank, personalization },
+    fraction => onProgress(AnalysisStage.PAGERANK, fraction)
+  );
+  nodes.forEach((n, i) => n.pagerank = pagerank.scores[i]);
+
+  // 3. Community Detection (Label Propagation, Louvain or Leiden)
+  onProgress(AnalysisStage.COMMUNITIES, 0);
+  const groups = detectCommunities(index, options.community, createRng(seed, 'communities'));
+  nodes.forEach((n, i) => n.group = groups[i]);
+  const modularity = computeModularity(index, groups);
+  onProgress(AnalysisStage.COMMUNITIES, 1);
+
+  // 4. Betweenness Centrality (Brandes; sampled pivots for large graphs)
+  onProgress(AnalysisStage.BETWEENNESS, 0);
+  const betweennessOptions = { ...options.betweenness };
+  if (betweennessOptions.k === undefined && nodes.length > EXACT_BETWEENNESS_LIMIT) {
+    betweennessOptions.k = DEFAULT_BETWEENNESS_SAMPLES;
   }
-  
-  // Assign numeric group IDs based on labels
-  const uniqueLabels = Array.from(new Set(labels.values()));
-  nodes.forEach(n => {
-    n.group = uniqueLabels.indexOf(labels.get(n.id)!);
+  const betweenness = computeBetweenness(
+    index,
+    betweennessOptions,
+    createRng(seed, 'betweenness'),
+    fraction => onProgress(AnalysisStage.BETWEENNESS, fraction)
+  );
+  nodes.forEach((n, i) => n.betweenness = betweenness[i]);
+  const betweennessSamples = betweennessOptions.k !== undefined && betweennessOptions.k < nodes.length
+    ? Math.floor(betweennessOptions.k)
+    : null;
+
+  // 5. Closeness, spectral and core centralities. Closeness shares betweenness'
+  // sampling budget since both need a shortest-path search per source.
+  onProgress(AnalysisStage.CENTRALITY, 0);
+  const closeness = computeCloseness(
+    index,
+    { k: betweennessOptions.k },
+    createRng(seed, 'closeness'),
+    fraction => onProgress(AnalysisStage.CENTRALITY, fraction * 0.9)
+  );
+  const eigenvector = computeEigenvector(index);
+  const katzAlpha = eigenvector.eigenvalue > 0
+    ? Math.min(DEFAULT_KATZ_ALPHA, 0.9 / eigenvector.eigenvalue)
+    : DEFAULT_KATZ_ALPHA;
+  const katz = computeKatz(index, katzAlpha);
+  const hits = computeHits(index);
+  const coreness = computeCoreness(index);
+  nodes.forEach((n, i) => {
+    n.closeness = closeness.closeness[i];
+    n.harmonic = closeness.harmonic[i];
+    n.eigenvector = eigenvector.scores[i];
+    n.katz = katz.scores[i];
+    n.hub = hits.hubs[i];
+    n.authority = hits.authorities[i];
+    n.coreness = coreness[i];
   });
+  onProgress(AnalysisStage.CENTRALITY, 1);
 
-  // 4. Global Metrics
-  const density = links.length / (nodes.length * (nodes.length - 1));
-  const avgDegree = links.length / nodes.length;
+  // 6. Clustering, reciprocity and degree mixing
+  onProgress(AnalysisStage.CLUSTERING, 0);
+  const clustering = computeClustering(index);
+  const reciprocity = computeReciprocity(index);
+  nodes.forEach((n, i) => {
+    n.clustering = clustering.clustering[i];
+    n.triangles = clustering.triangles[i];
+    n.reciprocity = reciprocity.nodes[i];
+  });
+  const assortativity = computeAssortativity(index);
+  onProgress(AnalysisStage.CLUSTERING, 1);
+
+  // 7. Components and path lengths. Distances are only finite inside a strongly
+  // connected component, so diameter and average path length use the largest one.
+  onProgress(AnalysisStage.PATHS, 0);
+  const weak = weaklyConnectedComponents(index);
+  const strong = mode.directed ? stronglyConnectedComponents(index) : weak;
+  const giantMembers: number[] = [];
+  strong.componentOf.forEach((c, i) => { if (c === 0) giantMembers.push(i); });
+  const paths = computePathLengths(
+    index,
+    giantMembers,
+    createRng(seed, 'paths'),
+    undefined,
+    fraction => onProgress(AnalysisStage.PATHS, fraction)
+  );
+
+  // 8. Global Metrics (distinct node pairs, so parallel edges don't inflate density)
+  const n = nodes.length;
+  const edgePairs = mode.directed
+    ? index.outNeighbors.reduce((sum, list) => sum + list.length, 0)
+    : index.neighbors.reduce((sum, list) => sum + list.length, 0) / 2;
+  const density = n > 1 ? (mode.directed ? edgePairs / (n * (n - 1)) : (2 * edgePairs) / (n * (n - 1))) : 0;
+  const avgDegree = n > 0 ? (mode.directed ? edgePairs / n : (2 * edgePairs) / n) : 0;
 
   return {
     updatedNodes: nodes,
@@ -141,13 +244,34 @@ export const calculateMetrics = (data: GraphData): { updatedNodes: Node[], metri
       edgeCount: links.length,
       density: density,
       avgDegree: avgDegree,
-      diameter: "N/A (Compute Heavy)",
-      modularity: uniqueLabels.length / nodes.length // Rough proxy
+      componentCount: weak.sizes.length,
+      strongComponentCount: strong.sizes.length,
+      giantComponentShare: n > 0 ? weak.sizes[0] / n : 0,
+      diameter: paths.diameter,
+      avgPathLength: paths.averagePathLength,
+      pathSamples: paths.samples,
+      modularity,
+      communityCount: new Set(groups).size,
+      seed,
+      pagerankIterations: pagerank.iterations,
+      pagerankConverged: pagerank.converged,
+      betweennessSamples,
+      katzAlpha,
+      triangleCount: clustering.triangleCount,
+      transitivity: clustering.transitivity,
+      avgClustering: clustering.averageClustering,
+      reciprocity: reciprocity.overall,
+      assortativity
     }
   };
 };
 
-export const generateSampleData = (n: number = 50): GraphData => {
+// Sample accounts join one every few days, so the timeline has something to play back
+const SAMPLE_START = Date.UTC(2024, 0, 1);
+const SAMPLE_JOIN_INTERVAL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const generateSampleData = (n: number = 50, seed: number = DEFAULT_SEED): GraphData => {
+  const rng = createRng(seed, 'sample');
   // Barabási–Albert model simplified
   const nodes: Node[] = [];
   const links: Link[] = [];
@@ -155,16 +279,16 @@ export const generateSampleData = (n: number = 50): GraphData => {
   // Create initial fully connected graph
   const m0 = 5;
   for (let i = 0; i < m0; i++) {
-    nodes.push({ id: `User_${i}`, degree: 0, inDegree: 0, outDegree: 0, betweenness: 0, pagerank: 0, group: 0 });
+    nodes.push(createNode(`User_${i}`));
     for (let j = i + 1; j < m0; j++) {
-      links.push({ source: `User_${i}`, target: `User_${j}` });
+      links.push({ source: `User_${i}`, target: `User_${j}`, timestamp: SAMPLE_START + j * SAMPLE_JOIN_INTERVAL_MS });
     }
   }
 
   // Add remaining nodes
   for (let i = m0; i < n; i++) {
     const newNodeId = `User_${i}`;
-    nodes.push({ id: newNodeId, degree: 0, inDegree: 0, outDegree: 0, betweenness: 0, pagerank: 0, group: 0 });
+    nodes.push(createNode(newNodeId));
     
     // Preferential attachment
     const degrees = nodes.map(n => {
@@ -178,7 +302,7 @@ export const generateSampleData = (n: number = 50): GraphData => {
     const targetLinks = 2; // m param
     
     while (addedLinks < targetLinks) {
-        let rand = Math.random() * totalDegree;
+        let rand = rng() * totalDegree;
         let cumulative = 0;
         for (let j = 0; j < nodes.length - 1; j++) { // exclude self
             cumulative += degrees[j];
@@ -191,7 +315,7 @@ export const generateSampleData = (n: number = 50): GraphData => {
                 );
                 
                 if (!exists) {
-                    links.push({ source: newNodeId, target: targetId });
+                    links.push({ source: newNodeId, target: targetId, timestamp: SAMPLE_START + i * SAMPLE_JOIN_INTERVAL_MS });
                     addedLinks++;
                 }
                 break;
@@ -200,5 +324,5 @@ export const generateSampleData = (n: number = 50): GraphData => {
     }
   }
 
-  return buildGraphFromLinks(links.map(l => ({ source: l.source as string, target: l.target as string })));
+  return buildGraphFromLinks(links.map(l => ({ source: l.source as string, target: l.target as string, timestamp: l.timestamp })));
 };
\ No newline at end of file
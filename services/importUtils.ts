@@ -0,0 +1,232 @@
+import { RawLink } from './graphUtils';
+
+export interface CsvRow {
+  line: number; // 1-based line where the record starts
+  cells: string[];
+}
+
+export interface SkippedRow {
+  line: number;
+  reason: string;
+}
+
+export interface ColumnMapping {
+  source: number;
+  target: number;
+  weight: number | null;
+  timestamp: number | null;
+}
+
+export interface EdgeListImport {
+  links: RawLink[];
+  skipped: SkippedRow[];
+}
+
+export const DELIMITERS = [',', '\t', ';', '|'];
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+/**
+ * RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and
+ * line breaks; CRLF, LF and CR line endings are all accepted.
+ * Blank lines are dropped. An unterminated quote is reported instead of thrown.
+ */
+export const parseDelimited = (text: string, delimiter: string): { rows: CsvRow[]; errors: SkippedRow[] } => {
+  const rows: CsvRow[] = [];
+  const errors: SkippedRow[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // Strip BOM
+
+  let cells: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(field);
+    field = '';
+    if (cells.length > 1 || cells[0].trim() !== '') rows.push({ line: rowStart, cells });
+    cells = [];
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === '\n' || (ch === '\r' && input[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: rowStart, reason: 'Unterminated quoted field' });
+  } else if (field !== '' || cells.length > 0) {
+    endRow();
+  }
+
+  return { rows, errors };
+};
+
+// Pick the candidate that splits the first lines into the most consistent, widest columns
+export const detectDelimiter = (text: string): string => {
+  const sample = text.slice(0, 20000);
+  let best = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const { rows } = parseDelimited(sample, delimiter);
+    const widths = rows.slice(0, 20).map(r => r.cells.length);
+    if (widths.length === 0) return;
+    const counts = new Map<number, number>();
+    widths.forEach(w => counts.set(w, (counts.get(w) || 0) + 1));
+    const [modeWidth, modeCount] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+    const consistency = modeCount / widths.length;
+    const score = modeWidth > 1 ? modeWidth * consistency : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+const SOURCE_NAMES = /^(source|src|from|follower|user|source_id|from_id|node1|u)$/i;
+const TARGET_NAMES = /^(target|dst|dest|to|followee|following|friend|target_id|to_id|node2|v)$/i;
+const WEIGHT_NAMES = /^(weight|value|count|strength|w)$/i;
+const TIMESTAMP_NAMES = /^(timestamp|time|date|datetime|created_at|followed_at|ts)$/i;
+
+const isNumeric = (value: string) => value.trim() !== '' && !Number.isNaN(Number(value));
+
+/**
+ * A first row is treated as a header when it names a known column, or when some
+ * column is numeric in the data rows but not in the first row.
+ */
+export const detectHeader = (rows: CsvRow[]): boolean => {
+  if (rows.length === 0) return false;
+  const first = rows[0].cells.map(c => c.trim());
+  if (first.some(c => SOURCE_NAMES.test(c) || TARGET_NAMES.test(c) || WEIGHT_NAMES.test(c) || TIMESTAMP_NAMES.test(c))) {
+    return true;
+  }
+  const sample = rows.slice(1, 21);
+  if (sample.length === 0) return false;
+  return first.some((cell, col) =>
+    !isNumeric(cell) && sample.every(r => r.cells[col] !== undefined && isNumeric(r.cells[col]))
+  );
+};
+
+export const guessColumnMapping = (header: string[] | null, columnCount: number): ColumnMapping => {
+  const find = (pattern: RegExp) => {
+    if (!header) return -1;
+    return header.findIndex(h => pattern.test(h.trim()));
+  };
+  const source = find(SOURCE_NAMES);
+  const target = find(TARGET_NAMES);
+  const weight = find(WEIGHT_NAMES);
+  const timestamp = find(TIMESTAMP_NAMES);
+
+  const fallbackSource = source >= 0 ? source : 0;
+  const fallbackTarget = target >= 0 ? target : (fallbackSource === 0 ? Math.min(1, columnCount - 1) : 0);
+
+  return {
+    source: fallbackSource,
+    target: fallbackTarget,
+    weight: weight >= 0 ? weight : null,
+    timestamp: timestamp >= 0 ? timestamp : null,
+  };
+};
+
+// Bare 4-digit numbers are years. Other numbers are Unix seconds below 1e11 and
+// milliseconds above; anything before 1e8 seconds (early 1973) is too small to be
+// an epoch time and is rejected.
+const MIN_EPOCH_SECONDS = 1e8;
+
+export const parseTimestamp = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (/^\d{4}$/.test(trimmed)) return Date.UTC(Number(trimmed), 0, 1);
+  if (isNumeric(trimmed)) {
+    const n = Number(trimmed);
+    if (n < MIN_EPOCH_SECONDS) return null;
+    return n < 1e11 ? n * 1000 : n;
+  }
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+export const buildEdgeList = (rows: CsvRow[], mapping: ColumnMapping, hasHeader: boolean): EdgeListImport => {
+  const links: RawLink[] = [];
+  const skipped: SkippedRow[] = [];
+  const required = Math.max(
+    mapping.source,
+    mapping.target,
+    mapping.weight ?? -1,
+    mapping.timestamp ?? -1
+  ) + 1;
+
+  (hasHeader ? rows.slice(1) : rows).forEach(({ line, cells }) => {
+    if (cells.length < required) {
+      skipped.push({ line, reason: `Expected ${required} columns, found ${cells.length}` });
+      return;
+    }
+    const source = cells[mapping.source].trim();
+    const target = cells[mapping.target].trim();
+    if (!source || !target) {
+      skipped.push({ line, reason: source ? 'Missing target' : 'Missing source' });
+      return;
+    }
+
+    const link: RawLink = { source, target };
+
+    if (mapping.weight !== null && cells[mapping.weight].trim() !== '') {
+      const weight = Number(cells[mapping.weight]);
+      if (!Number.isFinite(weight) || weight < 0) {
+        skipped.push({ line, reason: `Invalid weight "${cells[mapping.weight]}"` });
+        return;
+      }
+      link.value = weight;
+    }
+
+    if (mapping.timestamp !== null && cells[mapping.timestamp].trim() !== '') {
+      const timestamp = parseTimestamp(cells[mapping.timestamp]);
+      if (timestamp === null) {
+        skipped.push({ line, reason: `Invalid timestamp "${cells[mapping.timestamp]}"` });
+        return;
+      }
+      link.timestamp = timestamp;
+    }
+
+    links.push(link);
+  });
+
+  return { links, skipped };
+};
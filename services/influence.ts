@@ -0,0 +1,168 @@
+import { GraphData, GraphMode, InfluenceOptions, InfluenceStrategy } from '../types';
+import { buildGraphIndex } from './graphIndex';
+import { createRng } from './random';
+import { DiffusionGraph, ReachStats, DEFAULT_DIFFUSION_OPTIONS, prepareDiffusion, runSpread, summarizeReach } from './diffusion';
+
+export const MAX_INFLUENCE_BUDGET = 20;
+
+// Greedy evaluates every candidate at least once; above this many nodes only
+// the most-followed accounts are considered
+export const MAX_GREEDY_CANDIDATES = 500;
+
+export const DEFAULT_INFLUENCE_OPTIONS: InfluenceOptions = { ...DEFAULT_DIFFUSION_OPTIONS, runs: 50, budget: 5 };
+
+export const INFLUENCE_STRATEGY_LABELS: Record<InfluenceStrategy, string> = {
+  [InfluenceStrategy.GREEDY]: 'Greedy (CELF)',
+  [InfluenceStrategy.DEGREE_DISCOUNT]: 'Degree Discount',
+  [InfluenceStrategy.PAGERANK]: 'PageRank',
+};
+
+export interface InfluenceSeed {
+  id: string;
+  reach: number; // Estimated expected spread of the seed set up to and including this account
+}
+
+export interface InfluenceResult {
+  strategy: InfluenceStrategy;
+  seeds: InfluenceSeed[];
+  reach: ReachStats; // Final reach of the whole seed set across Monte Carlo runs
+}
+
+export interface InfluenceComparison {
+  options: InfluenceOptions;
+  nodeCount: number;
+  candidateCount: number; // Accounts the greedy search considered
+  results: Record<InfluenceStrategy, InfluenceResult>;
+}
+
+/**
+ * Monte Carlo spread estimator. Run r always uses the same random stream, so
+ * two seed sets are compared under identical coin flips (common random
+ * numbers), which keeps greedy marginal gains from drowning in noise.
+ */
+const createEstimator = (graph: DiffusionGraph, options: InfluenceOptions, seed: number) => {
+  const runs = Math.max(1, options.runs);
+  return (seeds: number[]): ReachStats => summarizeReach(Array.from({ length: runs }, (_, r) => {
+    const run = runSpread(graph, seeds, options, createRng(seed, `influence:${r}`));
+    return run.reach[run.reach.length - 1];
+  }));
+};
+
+/**
+ * Greedy hill climbing with CELF (Leskovec et al. 2007): spread is submodular,
+ * so a candidate's marginal gain can only shrink as seeds are added. Gains are
+ * re-evaluated lazily, only when a stale candidate reaches the top of the queue.
+ */
+const greedySeeds = (
+  candidates: number[],
+  budget: number,
+  spread: (seeds: number[]) => number,
+  onProgress: (fraction: number) => void
+): number[] => {
+  const selected: number[] = [];
+  let current = 0;
+  const byGain = (a: { node: number; gain: number }, b: { node: number; gain: number }) => b.gain - a.gain || a.node - b.node;
+  // The first pass over every candidate dominates; lazy re-evaluations are few
+  const queue = candidates
+    .map((node, i) => {
+      onProgress((0.8 * i) / candidates.length);
+      return { node, gain: spread([node]), round: 0 };
+    })
+    .sort(byGain);
+
+  while (selected.length < budget && queue.length > 0) {
+    const top = queue.shift()!;
+    if (top.round === selected.length) {
+      selected.push(top.node);
+      current += top.gain;
+      onProgress(0.8 + (0.2 * selected.length) / budget);
+      continue;
+    }
+    top.gain = spread([...selected, top.node]) - current;
+    top.round = selected.length;
+    let at = 0;
+    while (at < queue.length && byGain(queue[at], top) < 0) at++;
+    queue.splice(at, 0, top);
+  }
+  return selected;
+};
+
+/**
+ * Degree discount (Chen, Wang & Yang 2009): an account's reach is its follower
+ * count, discounted for followers that are already seeds. The discount formula
+ * assumes Independent Cascade with probability p; other models reuse it as is.
+ */
+const degreeDiscountSeeds = (graph: DiffusionGraph, budget: number, p: number): number[] => {
+  // following[v] lists the accounts v reaches through, i.e. those v follows
+  const following: number[][] = Array.from({ length: graph.size }, () => []);
+  graph.followers.forEach((list, u) => list.forEach(v => following[v].push(u)));
+
+  const degree = graph.followers.map(list => list.length);
+  const discounted = Float64Array.from(degree);
+  const seededFollowers = new Int32Array(graph.size);
+  const chosen = new Uint8Array(graph.size);
+  const selected: number[] = [];
+
+  while (selected.length < Math.min(budget, graph.size)) {
+    let best = -1;
+    for (let v = 0; v < graph.size; v++) {
+      if (!chosen[v] && (best < 0 || discounted[v] > discounted[best])) best = v;
+    }
+    chosen[best] = 1;
+    selected.push(best);
+    following[best].forEach(v => {
+      if (chosen[v]) return;
+      const t = ++seededFollowers[v];
+      discounted[v] = degree[v] - 2 * t - (degree[v] - t) * t * p;
+    });
+  }
+  return selected;
+};
+
+/**
+ * Picks `budget` seed accounts with each strategy and estimates the expected
+ * spread of every prefix of the seed set, so the optimized picks can be
+ * compared against plain PageRank (as currently computed, personalized or not).
+ */
+export const maximizeInfluence = (
+  data: GraphData,
+  options: InfluenceOptions,
+  mode: GraphMode,
+  seed: number,
+  onProgress: (fraction: number) => void = () => {}
+): InfluenceComparison => {
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const graph = prepareDiffusion(index);
+  const estimate = createEstimator(graph, options, seed);
+  const budget = Math.max(1, Math.min(MAX_INFLUENCE_BUDGET, options.budget, index.size));
+
+  let candidates = Array.from({ length: index.size }, (_, i) => i);
+  if (candidates.length > MAX_GREEDY_CANDIDATES) {
+    candidates = candidates
+      .sort((a, b) => graph.followers[b].length - graph.followers[a].length || a - b)
+      .slice(0, MAX_GREEDY_CANDIDATES);
+  }
+
+  const picks: Record<InfluenceStrategy, number[]> = {
+    [InfluenceStrategy.GREEDY]: greedySeeds(candidates, budget, seeds => estimate(seeds).mean, fraction => onProgress(0.9 * fraction)),
+    [InfluenceStrategy.DEGREE_DISCOUNT]: degreeDiscountSeeds(graph, budget, options.probability),
+    [InfluenceStrategy.PAGERANK]: data.nodes
+      .map((node, i) => ({ i, score: node.pagerank }))
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .slice(0, budget)
+      .map(entry => entry.i),
+  };
+
+  const results = {} as Record<InfluenceStrategy, InfluenceResult>;
+  (Object.keys(picks) as InfluenceStrategy[]).forEach(strategy => {
+    const chosen = picks[strategy];
+    const seeds = chosen.map((node, i) => ({
+      id: data.nodes[node].id,
+      reach: estimate(chosen.slice(0, i + 1)).mean,
+    }));
+    results[strategy] = { strategy, seeds, reach: estimate(chosen) };
+  });
+  onProgress(1);
+
+  return { options, nodeCount: index.size, candidateCount: candidates.length, results };
+};
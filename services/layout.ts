@@ -0,0 +1,425 @@
+import { quadtree } from 'd3';
+import type { QuadtreeInternalNode, QuadtreeLeaf } from 'd3';
+import { GraphData, GraphMode, LayoutAlgorithm, LayoutOptions } from '../types';
+import { buildGraphIndex, GraphIndex } from './graphIndex';
+import { createRng } from './random';
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  algorithm: LayoutAlgorithm.FORCE,
+  linkDistance: 50,
+  charge: -200,
+  iterations: 300,
+  scaling: 10,
+  gravity: 1,
+  linLog: false,
+  nodeSpacing: 24,
+  levelSpacing: 90,
+};
+
+export const LAYOUT_ALGORITHM_LABELS: Record<LayoutAlgorithm, string> = {
+  [LayoutAlgorithm.FORCE]: 'Force-Directed (D3)',
+  [LayoutAlgorithm.FORCE_ATLAS2]: 'ForceAtlas2',
+  [LayoutAlgorithm.FRUCHTERMAN_REINGOLD]: 'Fruchterman–Reingold',
+  [LayoutAlgorithm.CIRCULAR]: 'Circular by Community',
+  [LayoutAlgorithm.RADIAL]: 'Radial',
+  [LayoutAlgorithm.HIERARCHICAL]: 'Hierarchical',
+};
+
+export interface LayoutPosition {
+  x: number;
+  y: number;
+}
+
+// Barnes–Hut opening angle for the repulsion of the iterative layouts
+const THETA = 1.2;
+
+// Undirected edges once each, with their summed weight
+const undirectedEdges = (index: GraphIndex): { u: number; v: number; weight: number }[] => {
+  const edges: { u: number; v: number; weight: number }[] = [];
+  index.neighbors.forEach((list, u) => list.forEach((v, i) => {
+    if (u < v) edges.push({ u, v, weight: index.neighborWeights[u][i] });
+  }));
+  return edges;
+};
+
+type Quad = QuadtreeInternalNode<number> | QuadtreeLeaf<number>;
+
+const isLeaf = (quad: Quad): quad is QuadtreeLeaf<number> => !('length' in quad);
+
+/**
+ * Adds a repulsion of strength * m_i * m_j / d between every pair of nodes to
+ * (fx, fy), approximating far-away groups by their center of mass.
+ */
+const repel = (
+  xs: Float64Array,
+  ys: Float64Array,
+  masses: Float64Array,
+  strength: number,
+  fx: Float64Array,
+  fy: Float64Array
+) => {
+  const tree = quadtree<number>()
+    .x(i => xs[i])
+    .y(i => ys[i])
+    .addAll(Array.from({ length: xs.length }, (_, i) => i));
+
+  // Total mass and center of mass of every quad, filled in bottom-up
+  const bodies = new WeakMap<Quad, { mass: number; cx: number; cy: number }>();
+  tree.visitAfter(quad => {
+    let mass = 0;
+    let x = 0;
+    let y = 0;
+    if (isLeaf(quad)) {
+      for (let p: QuadtreeLeaf<number> | undefined = quad; p; p = p.next) {
+        mass += masses[p.data];
+        x += masses[p.data] * xs[p.data];
+        y += masses[p.data] * ys[p.data];
+      }
+    } else {
+      quad.forEach(child => {
+        const body = child && bodies.get(child);
+        if (!body) return;
+        mass += body.mass;
+        x += body.mass * body.cx;
+        y += body.mass * body.cy;
+      });
+    }
+    bodies.set(quad, { mass, cx: mass > 0 ? x / mass : 0, cy: mass > 0 ? y / mass : 0 });
+  });
+
+  const push = (i: number, x: number, y: number, mass: number) => {
+    const dx = xs[i] - x;
+    const dy = ys[i] - y;
+    const d2 = dx * dx + dy * dy;
+    if (d2 === 0) return;
+    const factor = strength * masses[i] * mass / d2;
+    fx[i] += dx * factor;
+    fy[i] += dy * factor;
+  };
+
+  for (let i = 0; i < xs.length; i++) {
+    tree.visit((quad, x0, _y0, x1) => {
+      if (isLeaf(quad)) {
+        for (let p: QuadtreeLeaf<number> | undefined = quad; p; p = p.next) if (p.data !== i) push(i, xs[p.data], ys[p.data], masses[p.data]);
+        return true;
+      }
+      const { mass, cx, cy } = bodies.get(quad)!;
+      const d = Math.hypot(cx - xs[i], cy - ys[i]);
+      if (d > 0 && (x1 - x0) / d < THETA) {
+        push(i, cx, cy, mass);
+        return true;
+      }
+      return false;
+    });
+  }
+};
+
+// Seeded starting positions in a square that grows with the node count
+const randomPositions = (n: number, side: number, seed: number, stream: string) => {
+  const rng = createRng(seed, stream);
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    xs[i] = (rng() - 0.5) * side;
+    ys[i] = (rng() - 0.5) * side;
+  }
+  return { xs, ys };
+};
+
+/**
+ * ForceAtlas2 (Jacomy et al. 2014): degree-weighted repulsion, attraction along
+ * edges (logarithmic in LinLog mode), gravity toward the center, and the
+ * swinging/traction speed adaptation that lets the layout settle.
+ */
+const forceAtlas2 = (index: GraphIndex, options: LayoutOptions, seed: number, onProgress: (fraction: number) => void) => {
+  const n = index.size;
+  const { xs, ys } = randomPositions(n, Math.sqrt(n) * options.linkDistance, seed, 'layout:forceatlas2');
+  const masses = Float64Array.from(index.neighbors, list => list.length + 1);
+  const edges = undirectedEdges(index);
+  let fx = new Float64Array(n);
+  let fy = new Float64Array(n);
+  let previousFx = new Float64Array(n);
+  let previousFy = new Float64Array(n);
+  let speed = 1;
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    onProgress(iteration / options.iterations);
+    [previousFx, fx] = [fx, previousFx];
+    [previousFy, fy] = [fy, previousFy];
+    fx.fill(0);
+    fy.fill(0);
+
+    repel(xs, ys, masses, options.scaling, fx, fy);
+    for (let i = 0; i < n; i++) {
+      const d = Math.hypot(xs[i], ys[i]);
+      if (d === 0) continue;
+      fx[i] -= xs[i] / d * options.gravity * masses[i];
+      fy[i] -= ys[i] / d * options.gravity * masses[i];
+    }
+    edges.forEach(({ u, v, weight }) => {
+      const dx = xs[u] - xs[v];
+      const dy = ys[u] - ys[v];
+      const d = Math.hypot(dx, dy);
+      if (d === 0) return;
+      const factor = weight * (options.linLog ? Math.log(1 + d) : d) / d;
+      fx[u] -= dx * factor;
+      fy[u] -= dy * factor;
+      fx[v] += dx * factor;
+      fy[v] += dy * factor;
+    });
+
+    // Nodes whose force keeps flipping direction (swinging) are slowed down,
+    // while a consistent pull (traction) lets the global speed grow
+    let swinging = 0;
+    let traction = 0;
+    for (let i = 0; i < n; i++) {
+      swinging += masses[i] * Math.hypot(fx[i] - previousFx[i], fy[i] - previousFy[i]);
+      traction += masses[i] * Math.hypot(fx[i] + previousFx[i], fy[i] + previousFy[i]) / 2;
+    }
+    if (iteration > 0 && swinging > 0) speed = Math.min(traction / swinging, speed * 1.5);
+    for (let i = 0; i < n; i++) {
+      const swing = masses[i] * Math.hypot(fx[i] - previousFx[i], fy[i] - previousFy[i]);
+      const factor = speed / (1 + Math.sqrt(speed * swing));
+      xs[i] += fx[i] * factor;
+      ys[i] += fy[i] * factor;
+    }
+  }
+  return { xs, ys };
+};
+
+/**
+ * Fruchterman–Reingold: repulsion k²/d between all nodes and attraction d²/k
+ * along edges, with a temperature capping each move that cools linearly to zero.
+ * Nodes are kept inside a square frame sized for `linkDistance` per node.
+ */
+const fruchtermanReingold = (index: GraphIndex, options: LayoutOptions, seed: number, onProgress: (fraction: number) => void) => {
+  const n = index.size;
+  const k = options.linkDistance;
+  const side = Math.sqrt(n) * k * 2;
+  const { xs, ys } = randomPositions(n, side, seed, 'layout:fruchterman-reingold');
+  const masses = new Float64Array(n).fill(1);
+  const edges = undirectedEdges(index);
+  const fx = new Float64Array(n);
+  const fy = new Float64Array(n);
+  const start = side / 10;
+
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    onProgress(iteration / options.iterations);
+    fx.fill(0);
+    fy.fill(0);
+    repel(xs, ys, masses, k * k, fx, fy);
+    edges.forEach(({ u, v }) => {
+      const dx = xs[u] - xs[v];
+      const dy = ys[u] - ys[v];
+      const factor = Math.hypot(dx, dy) / k;
+      fx[u] -= dx * factor;
+      fy[u] -= dy * factor;
+      fx[v] += dx * factor;
+      fy[v] += dy * factor;
+    });
+
+    const temperature = start * (1 - iteration / options.iterations);
+    for (let i = 0; i < n; i++) {
+      const force = Math.hypot(fx[i], fy[i]);
+      if (force === 0) continue;
+      const step = Math.min(force, temperature) / force;
+      xs[i] = Math.max(-side / 2, Math.min(side / 2, xs[i] + fx[i] * step));
+      ys[i] = Math.max(-side / 2, Math.min(side / 2, ys[i] + fy[i] * step));
+    }
+  }
+  return { xs, ys };
+};
+
+/**
+ * One circle with each community on a contiguous arc, largest community first and
+ * its best-connected members first, leaving two empty slots between communities.
+ */
+const circularByCommunity = (data: GraphData, index: GraphIndex, options: LayoutOptions) => {
+  const n = index.size;
+  const groups = new Map<number, number[]>();
+  data.nodes.forEach((node, i) => {
+    const group = node.group ?? 0;
+    if (!groups.has(group)) groups.set(group, []);
+    groups.get(group)!.push(i);
+  });
+  const ordered = Array.from(groups.entries())
+    .sort(([a, membersA], [b, membersB]) => membersB.length - membersA.length || a - b)
+    .map(([, members]) => members.sort((u, v) => index.neighbors[v].length - index.neighbors[u].length || u - v));
+
+  const gap = ordered.length > 1 ? 2 : 0;
+  const slots = n + gap * ordered.length;
+  const radius = Math.max(slots * options.nodeSpacing / (2 * Math.PI), options.nodeSpacing);
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  let slot = 0;
+  ordered.forEach(members => {
+    members.forEach(i => {
+      const angle = 2 * Math.PI * slot++ / slots - Math.PI / 2;
+      xs[i] = radius * Math.cos(angle);
+      ys[i] = radius * Math.sin(angle);
+    });
+    slot += gap;
+  });
+  return { xs, ys };
+};
+
+// Breadth-first tree over undirected neighbors; unreached nodes keep depth -1
+const bfsTree = (index: GraphIndex, root: number, depth: Int32Array, parent: Int32Array): number[] => {
+  const order = [root];
+  depth[root] = 0;
+  for (let head = 0; head < order.length; head++) {
+    const u = order[head];
+    index.neighbors[u].forEach(v => {
+      if (depth[v] !== -1) return;
+      depth[v] = depth[u] + 1;
+      parent[v] = u;
+      order.push(v);
+    });
+  }
+  return order;
+};
+
+/**
+ * Radial tree around `focus`: rings by hop distance, each subtree given a wedge
+ * proportional to its number of leaves so branches don't cross. Accounts with no
+ * path to the focus share one extra outer ring.
+ */
+const radial = (index: GraphIndex, options: LayoutOptions, focus: number) => {
+  const n = index.size;
+  const depth = new Int32Array(n).fill(-1);
+  const parent = new Int32Array(n).fill(-1);
+  const order = bfsTree(index, focus, depth, parent);
+
+  const leaves = new Float64Array(n);
+  for (let i = order.length - 1; i >= 0; i--) {
+    const u = order[i];
+    if (leaves[u] === 0) leaves[u] = 1;
+    if (parent[u] !== -1) leaves[parent[u]] += leaves[u];
+  }
+
+  // Each subtree gets a wedge proportional to its leaves; children take consecutive
+  // slices of their parent's wedge, in BFS order
+  const wedgeSize = (u: number) => 2 * Math.PI * leaves[u] / leaves[focus];
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  const wedgeStart = new Float64Array(n);
+  const nextStart = new Float64Array(n);
+  order.forEach(u => {
+    const p = parent[u];
+    if (p !== -1) {
+      wedgeStart[u] = nextStart[p];
+      nextStart[p] += wedgeSize(u);
+    }
+    nextStart[u] = wedgeStart[u];
+    const angle = wedgeStart[u] + wedgeSize(u) / 2 - Math.PI / 2;
+    xs[u] = depth[u] * options.levelSpacing * Math.cos(angle);
+    ys[u] = depth[u] * options.levelSpacing * Math.sin(angle);
+  });
+
+  const outer = Array.from({ length: n }, (_, i) => i).filter(i => depth[i] === -1);
+  const ring = (depth.reduce((m, d) => Math.max(m, d), 0) + 1) * options.levelSpacing;
+  outer.forEach((i, k) => {
+    const angle = 2 * Math.PI * k / outer.length - Math.PI / 2;
+    xs[i] = ring * Math.cos(angle);
+    ys[i] = ring * Math.sin(angle);
+  });
+  return { xs, ys };
+};
+
+/**
+ * Layered drawing per connected component: the component's highest-PageRank
+ * account on top, then one layer per hop. Each layer is ordered by the average
+ * position of its neighbors in the layer above to reduce crossings, and the
+ * components are placed side by side, largest first.
+ */
+const hierarchical = (data: GraphData, index: GraphIndex, options: LayoutOptions) => {
+  const n = index.size;
+  const depth = new Int32Array(n).fill(-1);
+  const parent = new Int32Array(n).fill(-1);
+  const byRank = Array.from({ length: n }, (_, i) => i)
+    .sort((a, b) => data.nodes[b].pagerank - data.nodes[a].pagerank || a - b);
+  const components: { layers: number[][]; size: number }[] = [];
+  byRank.forEach(root => {
+    if (depth[root] !== -1) return;
+    const layers: number[][] = [];
+    const members = bfsTree(index, root, depth, parent);
+    members.forEach(u => {
+      (layers[depth[u]] ??= []).push(u);
+    });
+    components.push({ layers, size: members.length });
+  });
+  components.sort((a, b) => b.size - a.size);
+
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  const slot = new Float64Array(n);
+  let offset = 0;
+  components.forEach(({ layers }) => {
+    layers.forEach((layer, d) => {
+      if (d > 0) {
+        const barycenter = (u: number) => {
+          const above = index.neighbors[u].filter(v => depth[v] === d - 1);
+          return above.reduce((sum, v) => sum + slot[v], 0) / (above.length || 1);
+        };
+        const keys = new Map(layer.map(u => [u, barycenter(u)]));
+        layer.sort((u, v) => keys.get(u)! - keys.get(v)! || u - v);
+      }
+      layer.forEach((u, i) => { slot[u] = i - (layer.length - 1) / 2; });
+    });
+    const width = layers.reduce((m, layer) => Math.max(m, layer.length), 0) * options.nodeSpacing;
+    layers.forEach((layer, d) => layer.forEach(u => {
+      xs[u] = offset + width / 2 + slot[u] * options.nodeSpacing;
+      ys[u] = d * options.levelSpacing;
+    }));
+    offset += width + options.levelSpacing;
+  });
+  return { xs, ys };
+};
+
+/**
+ * Positions for every node under one of the static layouts, centered on the
+ * origin. The force layout runs live in the graph view, so it has none. Radial
+ * layouts center on `focusId`, or on the highest-PageRank account without one.
+ * `onProgress` follows the iterations of ForceAtlas2 and Fruchterman–Reingold.
+ */
+export const computeLayout = (
+  data: GraphData,
+  options: LayoutOptions,
+  mode: GraphMode,
+  seed: number,
+  focusId?: string | null,
+  onProgress: (fraction: number) => void = () => {}
+): Map<string, LayoutPosition> => {
+  const positions = new Map<string, LayoutPosition>();
+  if (options.algorithm === LayoutAlgorithm.FORCE || data.nodes.length === 0) return positions;
+
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  let layout: { xs: Float64Array; ys: Float64Array };
+  switch (options.algorithm) {
+    case LayoutAlgorithm.FORCE_ATLAS2:
+      layout = forceAtlas2(index, options, seed, onProgress);
+      break;
+    case LayoutAlgorithm.FRUCHTERMAN_REINGOLD:
+      layout = fruchtermanReingold(index, options, seed, onProgress);
+      break;
+    case LayoutAlgorithm.CIRCULAR:
+      layout = circularByCommunity(data, index, options);
+      break;
+    case LayoutAlgorithm.RADIAL: {
+      const focus = (focusId ? index.indexOf.get(focusId) : undefined)
+        ?? data.nodes.reduce((best, node, i) => node.pagerank > data.nodes[best].pagerank ? i : best, 0);
+      layout = radial(index, options, focus);
+      break;
+    }
+    default:
+      layout = hierarchical(data, index, options);
+  }
+
+  const { xs, ys } = layout;
+  const middle = (values: Float64Array) => (values.reduce((m, v) => Math.min(m, v), Infinity) + values.reduce((m, v) => Math.max(m, v), -Infinity)) / 2;
+  const cx = middle(xs);
+  const cy = middle(ys);
+  data.nodes.forEach((node, i) => positions.set(node.id, { x: xs[i] - cx, y: ys[i] - cy }));
+  onProgress(1);
+  return positions;
+};
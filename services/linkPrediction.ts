@@ -0,0 +1,245 @@
+import { GraphData, GraphMode, LinkPredictor } from '../types';
+import { buildGraphIndex } from './graphIndex';
+import { createRng, shuffle } from './random';
+import { createMinHeap } from './priorityQueue';
+
+export const DEFAULT_PREDICTION_LIMIT = 20;
+export const DEFAULT_HOLDOUT_FRACTION = 0.1;
+
+export const LINK_PREDICTOR_LABELS: Record<LinkPredictor, string> = {
+  [LinkPredictor.COMMON_NEIGHBORS]: 'Common Neighbors',
+  [LinkPredictor.JACCARD]: 'Jaccard',
+  [LinkPredictor.ADAMIC_ADAR]: 'Adamic–Adar',
+  [LinkPredictor.RESOURCE_ALLOCATION]: 'Resource Allocation',
+  [LinkPredictor.PREFERENTIAL_ATTACHMENT]: 'Preferential Attachment',
+};
+
+export interface PredictedLink {
+  source: string;
+  target: string;
+  score: number;
+}
+
+export interface PredictorEvaluation {
+  predictor: LinkPredictor;
+  auc: number; // Chance a hidden edge outscores a random non-edge, ties counting half
+  precision: number; // Share of the top k predictions that are hidden edges
+}
+
+export interface LinkPredictionEvaluation {
+  hiddenEdges: number;
+  negatives: number; // Non-edges sampled for the AUC
+  k: number;
+  results: PredictorEvaluation[];
+}
+
+/**
+ * Undirected scoring graph; "who will follow whom" is scored on the union of
+ * follows, as the NetworkX link prediction functions do.
+ */
+interface PredictionGraph {
+  size: number;
+  neighbors: number[][];
+  neighborSets: Set<number>[];
+}
+
+const createPredictionGraph = (size: number, neighbors: number[][]): PredictionGraph => ({
+  size,
+  neighbors,
+  neighborSets: neighbors.map(list => new Set(list)),
+});
+
+// Pairs are packed into one number so they can sit in the heap and in sets
+const pairKey = (u: number, v: number, size: number) => u < v ? u * size + v : v * size + u;
+
+const scorePair = (graph: PredictionGraph, predictor: LinkPredictor, u: number, v: number): number => {
+  const du = graph.neighbors[u].length;
+  const dv = graph.neighbors[v].length;
+  if (predictor === LinkPredictor.PREFERENTIAL_ATTACHMENT) return du * dv;
+
+  const [small, large] = du <= dv ? [u, v] : [v, u];
+  let common = 0;
+  let adamicAdar = 0;
+  let resource = 0;
+  graph.neighbors[small].forEach(w => {
+    if (!graph.neighborSets[large].has(w)) return;
+    const dw = graph.neighbors[w].length;
+    common++;
+    adamicAdar += 1 / Math.log(dw);
+    resource += 1 / dw;
+  });
+
+  switch (predictor) {
+    case LinkPredictor.JACCARD:
+      return du + dv - common > 0 ? common / (du + dv - common) : 0;
+    case LinkPredictor.ADAMIC_ADAR:
+      return adamicAdar;
+    case LinkPredictor.RESOURCE_ALLOCATION:
+      return resource;
+    default:
+      return common;
+  }
+};
+
+/**
+ * Highest-scoring non-adjacent pairs, optionally restricted to pairs involving
+ * `source`. Neighborhood scores are zero beyond two hops, so only two-hop pairs
+ * are scored; preferential attachment walks nodes by decreasing degree and stops
+ * once no remaining pair can enter the top `limit`. Zero scores are left out.
+ */
+const topPairs = (
+  graph: PredictionGraph,
+  predictor: LinkPredictor,
+  limit: number,
+  source: number | null
+): { u: number; v: number; score: number }[] => {
+  const heap = createMinHeap();
+  const offer = (u: number, v: number, score: number) => {
+    if (score <= 0) return;
+    heap.push(pairKey(u, v, graph.size), score);
+    if (heap.size() > limit) heap.pop();
+  };
+  const candidate = (u: number, v: number) => u !== v && !graph.neighborSets[u].has(v);
+
+  if (predictor === LinkPredictor.PREFERENTIAL_ATTACHMENT) {
+    const byDegree = Array.from({ length: graph.size }, (_, i) => i)
+      .sort((a, b) => graph.neighbors[b].length - graph.neighbors[a].length || a - b);
+    const degree = (i: number) => graph.neighbors[i].length;
+    // Smallest score still in the top `limit`, or 0 while it is not full
+    const floor = () => {
+      if (heap.size() < limit) return 0;
+      const min = heap.pop()!;
+      heap.push(min.item, min.priority);
+      return min.priority;
+    };
+    const firsts = source === null ? byDegree : [source];
+    for (let i = 0; i < firsts.length; i++) {
+      const u = firsts[i];
+      for (let j = source === null ? i + 1 : 0; j < byDegree.length; j++) {
+        const v = byDegree[j];
+        const score = degree(u) * degree(v);
+        if (score <= floor()) break;
+        if (candidate(u, v)) offer(u, v, score);
+      }
+      if (source === null && i + 1 < byDegree.length && degree(u) * degree(byDegree[i + 1]) <= floor()) break;
+    }
+  } else {
+    const sources = source === null ? Array.from({ length: graph.size }, (_, i) => i) : [source];
+    sources.forEach(u => {
+      const seen = new Set<number>();
+      graph.neighbors[u].forEach(w => graph.neighbors[w].forEach(v => {
+        // Whole-graph runs score each pair once, from its lower endpoint
+        if ((source === null && v <= u) || seen.has(v) || !candidate(u, v)) return;
+        seen.add(v);
+        offer(u, v, scorePair(graph, predictor, u, v));
+      }));
+    });
+  }
+
+  const pairs: { u: number; v: number; score: number }[] = [];
+  while (heap.size() > 0) {
+    const { item, priority } = heap.pop()!;
+    pairs.push({ u: Math.floor(item / graph.size), v: item % graph.size, score: priority });
+  }
+  return pairs.sort((a, b) => b.score - a.score || a.u - b.u || a.v - b.v);
+};
+
+/**
+ * Top predicted new ties for the whole graph, or for one account when `nodeId`
+ * is given (the account is then always listed as the source).
+ */
+export const predictLinks = (
+  data: GraphData,
+  predictor: LinkPredictor,
+  mode: GraphMode,
+  limit: number = DEFAULT_PREDICTION_LIMIT,
+  nodeId?: string
+): PredictedLink[] => {
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const source = nodeId === undefined ? null : index.indexOf.get(nodeId);
+  if (source === undefined) return [];
+  const graph = createPredictionGraph(index.size, index.neighbors);
+  return topPairs(graph, predictor, limit, source).map(({ u, v, score }) => {
+    const [from, to] = source !== null && v === source ? [v, u] : [u, v];
+    return { source: data.nodes[from].id, target: data.nodes[to].id, score };
+  });
+};
+
+/**
+ * Holdout evaluation: hides a random `fraction` of the ties, scores them with
+ * every predictor on the remaining graph, and compares them against as many
+ * random non-ties of the full graph (AUC), and against the top `k` predictions
+ * of each predictor (precision@k). The split is drawn from `seed`.
+ */
+export const evaluateLinkPrediction = (
+  data: GraphData,
+  mode: GraphMode,
+  seed: number,
+  fraction: number = DEFAULT_HOLDOUT_FRACTION,
+  k: number = DEFAULT_PREDICTION_LIMIT
+): LinkPredictionEvaluation => {
+  const index = buildGraphIndex(data.nodes, data.links, mode);
+  const n = index.size;
+  const rng = createRng(seed, 'link-prediction');
+
+  const edges: [number, number][] = [];
+  index.neighbors.forEach((list, u) => list.forEach(v => { if (u < v) edges.push([u, v]); }));
+  const hidden = shuffle(edges, rng).slice(0, Math.round(edges.length * Math.min(1, Math.max(0, fraction))));
+  const hiddenKeys = new Set(hidden.map(([u, v]) => pairKey(u, v, n)));
+
+  const training = createPredictionGraph(
+    n,
+    index.neighbors.map((list, u) => list.filter(v => !hiddenKeys.has(pairKey(u, v, n))))
+  );
+
+  // Non-edges of the full graph, drawn uniformly with a bounded number of attempts
+  const full = createPredictionGraph(n, index.neighbors);
+  const negatives: [number, number][] = [];
+  const drawn = new Set<number>();
+  for (let attempt = 0; n > 1 && negatives.length < hidden.length && attempt < hidden.length * 20; attempt++) {
+    const u = Math.floor(rng() * n);
+    const v = Math.floor(rng() * n);
+    const key = pairKey(u, v, n);
+    if (u === v || full.neighborSets[u].has(v) || drawn.has(key)) continue;
+    drawn.add(key);
+    negatives.push([u, v]);
+  }
+
+  const results = Object.values(LinkPredictor).map(predictor => {
+    const positiveScores = hidden.map(([u, v]) => scorePair(training, predictor, u, v));
+    const negativeScores = negatives.map(([u, v]) => scorePair(training, predictor, u, v));
+
+    // Mann–Whitney AUC from the merged ranking, ties counting half
+    const merged = [
+      ...positiveScores.map(score => ({ score, positive: true })),
+      ...negativeScores.map(score => ({ score, positive: false })),
+    ].sort((a, b) => a.score - b.score);
+    let wins = 0;
+    let negativesBelow = 0;
+    for (let i = 0; i < merged.length;) {
+      let j = i;
+      let tiedNegatives = 0;
+      let tiedPositives = 0;
+      while (j < merged.length && merged[j].score === merged[i].score) {
+        if (merged[j].positive) tiedPositives++;
+        else tiedNegatives++;
+        j++;
+      }
+      wins += tiedPositives * (negativesBelow + tiedNegatives / 2);
+      negativesBelow += tiedNegatives;
+      i = j;
+    }
+    const comparisons = positiveScores.length * negativeScores.length;
+
+    const top = topPairs(training, predictor, k, null);
+    const hits = top.filter(({ u, v }) => hiddenKeys.has(pairKey(u, v, n))).length;
+
+    return {
+      predictor,
+      auc: comparisons > 0 ? wins / comparisons : 0,
+      precision: k > 0 ? hits / k : 0,
+    };
+  });
+
+  return { hiddenEdges: hidden.length, negatives: negatives.length, k, results };
+};
@@ -0,0 +1,109 @@
+import { Node, Link, GraphMode } from '../types';
+import { buildGraphIndex, pathAdjacency } from './graphIndex';
+import { createMinHeap } from './priorityQueue';
+import { DISTANCE_EPSILON } from './centrality';
+
+// Dense graphs can have exponentially many equal-length paths; list at most this many
+export const MAX_SHORTEST_PATHS = 50;
+
+export interface ShortestPathResult {
+  source: string;
+  target: string;
+  weighted: boolean;
+  distance: number; // Hop count, or summed Link.value when weighted
+  paths: string[][]; // Node ids from source to target, one entry per equal-length path
+  truncated: boolean; // More than MAX_SHORTEST_PATHS paths exist
+}
+
+/**
+ * All shortest paths from `sourceId` to `targetId` (nx.all_shortest_paths),
+ * following edge direction when the mode is directed. Weighted mode routes with
+ * Dijkstra using Link.value as distance. Returns null when the target is unreachable.
+ */
+export const findShortestPaths = (
+  nodes: Node[],
+  links: Link[],
+  sourceId: string,
+  targetId: string,
+  mode: GraphMode
+): ShortestPathResult | null => {
+  const index = buildGraphIndex(nodes, links, mode);
+  const source = index.indexOf.get(sourceId);
+  const target = index.indexOf.get(targetId);
+  if (source === undefined || target === undefined) return null;
+
+  const n = index.size;
+  const { neighbors, lengths } = pathAdjacency(index);
+  const dist = new Float64Array(n).fill(Infinity);
+  const predecessors: number[][] = Array.from({ length: n }, () => []);
+  dist[source] = 0;
+
+  if (mode.weighted) {
+    const settled = new Uint8Array(n);
+    const heap = createMinHeap();
+    heap.push(source, 0);
+    while (heap.size() > 0) {
+      const { item: v } = heap.pop()!;
+      if (settled[v]) continue;
+      settled[v] = 1;
+      if (v === target) break;
+      neighbors[v].forEach((w, i) => {
+        const candidate = dist[v] + lengths[v][i];
+        if (candidate < dist[w] - DISTANCE_EPSILON) {
+          dist[w] = candidate;
+          predecessors[w] = [v];
+          heap.push(w, candidate);
+        } else if (!settled[w] && Math.abs(candidate - dist[w]) <= DISTANCE_EPSILON) {
+          predecessors[w].push(v);
+        }
+      });
+    }
+  } else {
+    // BFS, stopping once the target's level has been fully expanded
+    const queue: number[] = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      if (dist[v] >= dist[target]) break;
+      for (const w of neighbors[v]) {
+        if (dist[w] === Infinity) {
+          dist[w] = dist[v] + 1;
+          queue.push(w);
+        }
+        if (dist[w] === dist[v] + 1) predecessors[w].push(v);
+      }
+    }
+  }
+
+  if (dist[target] === Infinity) return null;
+
+  // Walk predecessor lists back from the target
+  const paths: string[][] = [];
+  let truncated = false;
+  const trail: number[] = [target];
+  const walk = (v: number) => {
+    if (truncated) return;
+    if (v === source) {
+      if (paths.length === MAX_SHORTEST_PATHS) {
+        truncated = true;
+        return;
+      }
+      paths.push(trail.map(i => nodes[i].id).reverse());
+      return;
+    }
+    for (const u of predecessors[v]) {
+      trail.push(u);
+      walk(u);
+      trail.pop();
+    }
+  };
+  walk(target);
+
+  return {
+    source: sourceId,
+    target: targetId,
+    weighted: mode.weighted,
+    distance: dist[target],
+    paths,
+    truncated,
+  };
+};
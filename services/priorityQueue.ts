@@ -0,0 +1,53 @@
+export interface MinHeap {
+  push: (item: number, priority: number) => void;
+  pop: () => { item: number; priority: number } | undefined;
+  size: () => number;
+}
+
+// Binary min-heap keyed by priority; stale entries are left for the caller to skip (lazy Dijkstra)
+export const createMinHeap = (): MinHeap => {
+  const items: number[] = [];
+  const priorities: number[] = [];
+
+  const swap = (a: number, b: number) => {
+    [items[a], items[b]] = [items[b], items[a]];
+    [priorities[a], priorities[b]] = [priorities[b], priorities[a]];
+  };
+
+  const push = (item: number, priority: number) => {
+    items.push(item);
+    priorities.push(priority);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (priorities[parent] <= priorities[i]) break;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const pop = () => {
+    if (items.length === 0) return undefined;
+    const top = { item: items[0], priority: priorities[0] };
+    const lastItem = items.pop()!;
+    const lastPriority = priorities.pop()!;
+    if (items.length > 0) {
+      items[0] = lastItem;
+      priorities[0] = lastPriority;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && priorities[left] < priorities[smallest]) smallest = left;
+        if (right < items.length && priorities[right] < priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  return { push, pop, size: () => items.length };
+};
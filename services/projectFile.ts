@@ -0,0 +1,219 @@
+import { GraphData, NetworkMetrics, AnalysisOptions, Node, Link, LayoutOptions, LayoutAlgorithm } from '../types';
+import { getLinkNodeId } from './graphIndex';
+import { buildGraph, RawLink, RawNode, EMPTY_METRICS } from './graphUtils';
+import { DEFAULT_LAYOUT_OPTIONS } from './layout';
+import { DEFAULT_COMMUNITY_OPTIONS } from './community';
+
+export const PROJECT_FORMAT = 'twitternet-project';
+export const PROJECT_VERSION = 3;
+
+// Everything needed to put the dashboard back exactly as it was saved
+export interface ProjectState {
+  graphData: GraphData;
+  metrics: NetworkMetrics | null; // null when the file's metrics are missing or outdated
+  analysisOptions: AnalysisOptions;
+  selectedNodeId: string | null;
+  report: string;
+  layout: LayoutOptions;
+  layoutFrozen: boolean; // Positions are kept as saved instead of being laid out again
+}
+
+type ProjectNode = Omit<Node, 'vx' | 'vy'>;
+
+interface ProjectFileV3 {
+  format: typeof PROJECT_FORMAT;
+  version: 3;
+  meta: { generatedAt: string; tool: string };
+  analysisOptions: AnalysisOptions;
+  metrics: NetworkMetrics | null;
+  selectedNodeId: string | null;
+  report: string;
+  layout: { options: LayoutOptions; frozen: boolean };
+  nodes: ProjectNode[]; // Pinned nodes keep their fx/fy
+  links: RawLink[];
+}
+
+// Version 2 predates layout settings; its positions came from the force layout
+interface ProjectFileV2 {
+  format: typeof PROJECT_FORMAT;
+  version: 2;
+  meta: { generatedAt: string; tool: string };
+  analysisOptions: AnalysisOptions;
+  metrics: NetworkMetrics | null;
+  selectedNodeId: string | null;
+  report: string;
+  nodes: ProjectNode[];
+  links: RawLink[];
+}
+
+// Version 1 is the plain meta/nodes/links document written by the original JSON export
+interface ProjectFileV1 {
+  meta?: { generatedAt?: string; tool?: string; seed?: number; analysisOptions?: AnalysisOptions };
+  nodes: ProjectNode[];
+  links: RawLink[];
+}
+
+type AnyProjectFile = ProjectFileV1 | ProjectFileV2 | ProjectFileV3;
+
+// Each step upgrades a document by one version. Files that predate the community
+// algorithm choice were analyzed with the default detector, which is now written out.
+const migrations: Record<number, (doc: AnyProjectFile) => AnyProjectFile> = {
+  1: (doc): ProjectFileV2 => {
+    const { meta, nodes, links } = doc as ProjectFileV1;
+    const analysisOptions = meta?.analysisOptions ?? (meta?.seed !== undefined ? { seed: meta.seed } : {});
+    return {
+      format: PROJECT_FORMAT,
+      version: 2,
+      meta: { generatedAt: meta?.generatedAt ?? new Date().toISOString(), tool: meta?.tool ?? 'TwitterNet Analyst' },
+      analysisOptions: { ...analysisOptions, community: analysisOptions.community ?? DEFAULT_COMMUNITY_OPTIONS },
+      metrics: null,
+      selectedNodeId: null,
+      report: '',
+      nodes,
+      links,
+    };
+  },
+  2: (doc): ProjectFileV3 => {
+    const v2 = doc as ProjectFileV2;
+    return {
+      ...v2,
+      version: 3,
+      analysisOptions: { ...v2.analysisOptions, community: v2.analysisOptions?.community ?? DEFAULT_COMMUNITY_OPTIONS },
+      layout: { options: DEFAULT_LAYOUT_OPTIONS, frozen: false },
+    };
+  },
+};
+
+export const serializeProject = (state: ProjectState): string => {
+  // Drop D3's velocity bookkeeping but keep the layout positions and pins
+  const nodes: ProjectNode[] = state.graphData.nodes.map(node => {
+    const { vx, vy, fx, fy, index, ...rest } = node as Node & { index?: number };
+    return fx != null && fy != null ? { ...rest, fx, fy } : rest;
+  });
+  const links: RawLink[] = state.graphData.links.map((l: Link) => ({
+    ...l,
+    source: getLinkNodeId(l.source),
+    target: getLinkNodeId(l.target),
+  }));
+
+  const doc: ProjectFileV3 = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    meta: { generatedAt: new Date().toISOString(), tool: 'TwitterNet Analyst' },
+    analysisOptions: state.analysisOptions,
+    metrics: state.metrics,
+    selectedNodeId: state.selectedNodeId,
+    report: state.report,
+    layout: { options: state.layout, frozen: state.layoutFrozen },
+    nodes,
+    links,
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const detectVersion = (doc: unknown): number => {
+  if (!isObject(doc)) throw new Error('Not a TwitterNet project file');
+  if (doc.format === PROJECT_FORMAT && typeof doc.version === 'number') return doc.version;
+  if (doc.format === undefined && Array.isArray(doc.nodes) && Array.isArray(doc.links)) return 1;
+  throw new Error('Not a TwitterNet project file');
+};
+
+const validateV3 = (doc: ProjectFileV3): string[] => {
+  const errors: string[] = [];
+  const nodeIds = new Set<string>();
+
+  if (!Array.isArray(doc.nodes)) errors.push('nodes must be an array');
+  if (!Array.isArray(doc.links)) errors.push('links must be an array');
+  if (errors.length) return errors;
+
+  doc.nodes.forEach((node, i) => {
+    if (!isObject(node) || typeof node.id !== 'string') {
+      errors.push(`nodes[${i}].id must be a string`);
+      return;
+    }
+    if (nodeIds.has(node.id)) errors.push(`nodes[${i}].id "${node.id}" is duplicated`);
+    nodeIds.add(node.id);
+    (['x', 'y'] as const).forEach(axis => {
+      if (node[axis] !== undefined && typeof node[axis] !== 'number') errors.push(`nodes[${i}].${axis} must be a number`);
+    });
+    (['fx', 'fy'] as const).forEach(axis => {
+      if (node[axis] != null && typeof node[axis] !== 'number') errors.push(`nodes[${i}].${axis} must be a number or null`);
+    });
+  });
+
+  doc.links.forEach((link, i) => {
+    if (!isObject(link) || typeof link.source !== 'string' || typeof link.target !== 'string') {
+      errors.push(`links[${i}] must have string source and target`);
+    } else if (link.value !== undefined && typeof link.value !== 'number') {
+      errors.push(`links[${i}].value must be a number`);
+    }
+  });
+
+  if (!isObject(doc.analysisOptions)) errors.push('analysisOptions must be an object');
+  if (doc.metrics !== null && (!isObject(doc.metrics) || typeof doc.metrics.nodeCount !== 'number')) {
+    errors.push('metrics must be null or a metrics object');
+  }
+  if (doc.selectedNodeId !== null && !nodeIds.has(doc.selectedNodeId)) {
+    errors.push(`selectedNodeId "${doc.selectedNodeId}" does not match any node`);
+  }
+  if (typeof doc.report !== 'string') errors.push('report must be a string');
+  if (!isObject(doc.layout) || !isObject(doc.layout.options) || typeof doc.layout.frozen !== 'boolean') {
+    errors.push('layout must have options and a frozen flag');
+  } else if (!Object.values(LayoutAlgorithm).includes(doc.layout.options.algorithm)) {
+    errors.push(`layout algorithm "${doc.layout.options.algorithm}" is not supported`);
+  }
+
+  return errors;
+};
+
+/**
+ * Parses a project file of any supported version, migrating it step by step to
+ * the current format before validating. Throws with a readable message on failure.
+ */
+export const parseProject = (text: string): ProjectState => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  let version = detectVersion(parsed);
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project file version ${version} is newer than this app supports (${PROJECT_VERSION})`);
+  }
+  // Shape is only checked once the document is current, so each step trusts the version
+  let doc = parsed as AnyProjectFile;
+  while (version < PROJECT_VERSION) {
+    doc = migrations[version](doc);
+    version = 'version' in doc ? doc.version : 1;
+  }
+
+  const errors = validateV3(doc as ProjectFileV3);
+  if (errors.length) {
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+    throw new Error(`Invalid project file: ${errors.slice(0, 3).join('; ')}${more}`);
+  }
+
+  const project = doc as ProjectFileV3;
+  const graphData = buildGraph(project.nodes as RawNode[], project.links);
+
+  // Metrics saved before a metric was added are incomplete; have them recomputed
+  const metricsComplete = project.metrics !== null
+    && Object.keys(EMPTY_METRICS).every(key => key in project.metrics!);
+
+  return {
+    graphData,
+    metrics: metricsComplete ? project.metrics : null,
+    analysisOptions: project.analysisOptions,
+    selectedNodeId: project.selectedNodeId,
+    report: project.report,
+    // Parameters added in later versions fall back to their defaults
+    layout: { ...DEFAULT_LAYOUT_OPTIONS, ...project.layout.options },
+    layoutFrozen: project.layout.frozen,
+  };
+};
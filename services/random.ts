@@ -0,0 +1,40 @@
+// Uniform source in [0, 1), same contract as Math.random
+export type Random = () => number;
+
+export const DEFAULT_SEED = 42;
+
+// FNV-1a hash so named streams get unrelated but stable seeds
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32 PRNG. Passing a `stream` name derives an independent sequence from
+ * the same seed, so one algorithm consuming more numbers never shifts another's.
+ */
+export const createRng = (seed: number, stream: string = ''): Random => {
+  let state = (Math.floor(seed) ^ hashString(stream)) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = (): number => Math.floor(Math.random() * 1_000_000);
+
+// In-place Fisher–Yates shuffle
+export const shuffle = <T>(items: T[], rng: Random): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
@@ -0,0 +1,170 @@
+import { GraphData, GraphMode, Link, Node, TimeWindow } from '../types';
+import { buildGraphIndex, getLinkNodeId } from './graphIndex';
+import { computePageRank } from './centrality';
+
+// Finer windows are offered only while the timeline stays at or below this many buckets
+export const MAX_TIME_WINDOWS = 500;
+const PREFERRED_TIME_WINDOWS = 60;
+
+export const TIME_WINDOW_LABELS: Record<TimeWindow, string> = {
+  [TimeWindow.DAY]: 'Day',
+  [TimeWindow.WEEK]: 'Week',
+  [TimeWindow.MONTH]: 'Month',
+  [TimeWindow.YEAR]: 'Year',
+};
+
+export interface TimeRange {
+  start: number; // Earliest link timestamp, epoch ms
+  end: number; // Latest link timestamp, epoch ms
+}
+
+export interface TimelinePoint {
+  start: number; // Window bounds [start, end) in epoch ms
+  end: number;
+  label: string;
+  // Follows made within the window and the accounts they touch
+  nodes: number;
+  edges: number;
+  density: number;
+  topInfluencer: string | null; // Highest PageRank within the window's follows
+  topPageRank: number;
+  // The network as of the end of the window; undated links count from the start
+  totalNodes: number;
+  totalEdges: number;
+}
+
+const isDated = (link: Link) => typeof link.timestamp === 'number' && Number.isFinite(link.timestamp);
+
+export const getTimeRange = (links: Link[]): TimeRange | null => {
+  let start = Infinity;
+  let end = -Infinity;
+  links.forEach(l => {
+    if (!isDated(l)) return;
+    start = Math.min(start, l.timestamp!);
+    end = Math.max(end, l.timestamp!);
+  });
+  return start <= end ? { start, end } : null;
+};
+
+// Start of the calendar window containing `time`; weeks start on Monday
+const windowStart = (time: number, window: TimeWindow): number => {
+  const date = new Date(time);
+  switch (window) {
+    case TimeWindow.YEAR:
+      return Date.UTC(date.getUTCFullYear(), 0, 1);
+    case TimeWindow.MONTH:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    case TimeWindow.WEEK:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+    default:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  }
+};
+
+const nextWindow = (start: number, window: TimeWindow): number => {
+  const date = new Date(start);
+  switch (window) {
+    case TimeWindow.YEAR:
+      return Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+    case TimeWindow.MONTH:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    case TimeWindow.WEEK:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 7);
+    default:
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  }
+};
+
+export const formatWindow = (start: number, window: TimeWindow): string => {
+  const iso = new Date(start).toISOString();
+  switch (window) {
+    case TimeWindow.YEAR:
+      return iso.slice(0, 4);
+    case TimeWindow.MONTH:
+      return iso.slice(0, 7);
+    default:
+      return iso.slice(0, 10);
+  }
+};
+
+export const countTimeWindows = (range: TimeRange, window: TimeWindow): number => {
+  let count = 0;
+  for (let t = windowStart(range.start, window); t <= range.end && count <= MAX_TIME_WINDOWS; t = nextWindow(t, window)) count++;
+  return count;
+};
+
+// Finest window that keeps the timeline readable, falling back to years
+export const suggestTimeWindow = (range: TimeRange): TimeWindow =>
+  [TimeWindow.DAY, TimeWindow.WEEK, TimeWindow.MONTH].find(w => countTimeWindows(range, w) <= PREFERRED_TIME_WINDOWS) ?? TimeWindow.YEAR;
+
+/**
+ * When each account joins the network: the time of its earliest link. Accounts
+ * with an undated link, or no links at all, are absent because they are always shown.
+ */
+export const appearanceTimes = (data: GraphData): Map<string, number> => {
+  const first = new Map<string, number>();
+  const always = new Set<string>();
+  data.links.forEach(l => [getLinkNodeId(l.source), getLinkNodeId(l.target)].forEach(id => {
+    if (!isDated(l)) always.add(id);
+    else first.set(id, Math.min(first.get(id) ?? Infinity, l.timestamp!));
+  }));
+  always.forEach(id => first.delete(id));
+  return first;
+};
+
+/**
+ * Per-window metrics over dated links, from the earliest window to the latest.
+ * Each window is analyzed as the graph of the follows made within it, so the top
+ * influencer reflects who gathered attention in that period rather than overall.
+ */
+export const computeTimeline = (data: GraphData, window: TimeWindow, mode: GraphMode): TimelinePoint[] => {
+  const range = getTimeRange(data.links);
+  if (!range || countTimeWindows(range, window) > MAX_TIME_WINDOWS) return [];
+
+  const nodeById = new Map<string, Node>(data.nodes.map(n => [n.id, n]));
+  const dated = data.links.filter(isDated).sort((a, b) => a.timestamp! - b.timestamp!);
+
+  // Undated links and linkless accounts are part of the network from the start
+  const seen = new Set<string>(data.nodes.map(n => n.id));
+  appearanceTimes(data).forEach((_, id) => seen.delete(id));
+  let totalEdges = data.links.length - dated.length;
+
+  const points: TimelinePoint[] = [];
+  let next = 0;
+  for (let start = windowStart(range.start, window); start <= range.end; start = nextWindow(start, window)) {
+    const end = nextWindow(start, window);
+    const links: Link[] = [];
+    while (next < dated.length && dated[next].timestamp! < end) links.push(dated[next++]);
+
+    const ids = new Set<string>();
+    links.forEach(l => {
+      ids.add(getLinkNodeId(l.source));
+      ids.add(getLinkNodeId(l.target));
+    });
+    ids.forEach(id => seen.add(id));
+    totalEdges += links.length;
+
+    const nodes = Array.from(ids, id => nodeById.get(id)).filter((n): n is Node => n !== undefined);
+    const index = buildGraphIndex(nodes, links, mode);
+    const n = index.size;
+    const edgePairs = mode.directed
+      ? index.outNeighbors.reduce((sum, list) => sum + list.length, 0)
+      : index.neighbors.reduce((sum, list) => sum + list.length, 0) / 2;
+    const scores = computePageRank(index).scores;
+    const top = scores.reduce((best, score, i) => score > scores[best] ? i : best, 0);
+
+    points.push({
+      start,
+      end,
+      label: formatWindow(start, window),
+      nodes: n,
+      edges: links.length,
+      density: n > 1 ? (mode.directed ? edgePairs / (n * (n - 1)) : (2 * edgePairs) / (n * (n - 1))) : 0,
+      topInfluencer: n > 0 ? nodes[top].id : null,
+      topPageRank: n > 0 ? scores[top] : 0,
+      totalNodes: seen.size,
+      totalEdges,
+    });
+  }
+  return points;
+};
@@ -1,6 +1,10 @@
+// Extra per-node / per-edge data carried over from imported files
+export type AttributeMap = Record<string, string | number | boolean>;
+
 export interface Node {
   id: string;
   label?: string;
+  attributes?: AttributeMap;
   group?: number; // Community ID
   // Metrics
   degree: number;
@@ -8,17 +12,31 @@ export interface Node {
   outDegree: number;
   betweenness: number;
   pagerank: number;
+  closeness: number;
+  harmonic: number;
+  eigenvector: number;
+  katz: number;
+  hub: number; // HITS
+  authority: number; // HITS
+  coreness: number; // k-core number
+  clustering: number; // Local clustering coefficient
+  triangles: number;
+  reciprocity: number; // Share of the node's follow relations that are mutual
   // Simulation props
   x?: number;
   y?: number;
   vx?: number;
   vy?: number;
+  fx?: number | null; // Pinned position, kept after a drag until released
+  fy?: number | null;
 }
 
 export interface Link {
   source: string | Node;
   target: string | Node;
-  value?: number;
+  value?: number; // Edge weight
+  timestamp?: number; // Epoch milliseconds
+  attributes?: AttributeMap;
 }
 
 export interface GraphData {
@@ -31,8 +49,164 @@ export interface NetworkMetrics {
   edgeCount: number;
   density: number;
   avgDegree: number;
-  diameter: string; // "Approx. X"
-  modularity: number;
+  componentCount: number; // Weakly connected components
+  strongComponentCount: number; // Equals componentCount for undirected graphs
+  giantComponentShare: number; // Fraction of nodes in the largest component
+  diameter: number; // Hop count within the giant component
+  avgPathLength: number;
+  pathSamples: number | null; // BFS sources when estimated, null when exact
+  modularity: number; // Newman–Girvan Q of the active partition
+  communityCount: number;
+  seed: number;
+  pagerankIterations: number;
+  pagerankConverged: boolean;
+  betweennessSamples: number | null; // Pivot count when approximated, null when exact
+  katzAlpha: number; // Attenuation actually used, capped below 1 / lambda_max
+  triangleCount: number;
+  transitivity: number; // Global clustering: 3 * triangles / connected triples
+  avgClustering: number;
+  reciprocity: number; // Share of follow edges that are mutual
+  assortativity: number; // Degree assortativity coefficient
+}
+
+export interface GraphMode {
+  directed: boolean;
+  weighted: boolean; // Use Link.value as edge weight (strength for degree, distance for paths)
+}
+
+export interface PageRankOptions {
+  damping?: number; // alpha in nx.pagerank
+  tolerance?: number;
+  maxIterations?: number;
+  personalization?: string[]; // Node ids to bias teleportation toward (e.g. brand accounts)
+}
+
+export interface BetweennessOptions {
+  normalized?: boolean;
+  k?: number; // Number of sampled source pivots; exact when omitted
+}
+
+// Node scores that can rank influencers or size nodes; values are the Node keys
+export enum CentralityMetric {
+  DEGREE = 'degree',
+  PAGERANK = 'pagerank',
+  BETWEENNESS = 'betweenness',
+  CLOSENESS = 'closeness',
+  HARMONIC = 'harmonic',
+  EIGENVECTOR = 'eigenvector',
+  KATZ = 'katz',
+  HUB = 'hub',
+  AUTHORITY = 'authority',
+  CORENESS = 'coreness',
+}
+
+export enum CommunityAlgorithm {
+  LABEL_PROPAGATION = 'LABEL_PROPAGATION',
+  LOUVAIN = 'LOUVAIN',
+  LEIDEN = 'LEIDEN',
+}
+
+export interface CommunityOptions {
+  algorithm?: CommunityAlgorithm;
+  resolution?: number; // Modularity resolution (gamma); ignored by label propagation
+}
+
+// Which links the ego view walks outward along; source follows target
+export enum EgoDirection {
+  FOLLOWERS = 'FOLLOWERS', // Incoming links
+  FOLLOWING = 'FOLLOWING', // Outgoing links
+  BOTH = 'BOTH',
+}
+
+export interface EgoOptions {
+  radius: number; // Hops from the ego, 1-3
+  direction: EgoDirection; // Ignored when the graph is undirected
+}
+
+export enum DiffusionModel {
+  INDEPENDENT_CASCADE = 'INDEPENDENT_CASCADE',
+  LINEAR_THRESHOLD = 'LINEAR_THRESHOLD',
+  SIR = 'SIR',
+}
+
+export interface DiffusionOptions {
+  model: DiffusionModel;
+  seeds: string[]; // Accounts that post first
+  probability: number; // Independent Cascade activation probability; SIR infection rate (beta)
+  recoveryRate: number; // SIR recovery rate (gamma)
+  runs: number; // Monte Carlo repetitions
+  maxSteps: number;
+}
+
+export enum InfluenceStrategy {
+  GREEDY = 'GREEDY', // Greedy hill climbing with CELF lazy evaluation
+  DEGREE_DISCOUNT = 'DEGREE_DISCOUNT',
+  PAGERANK = 'PAGERANK',
+}
+
+export interface InfluenceOptions extends Omit<DiffusionOptions, 'seeds'> {
+  budget: number; // Number of seed accounts to pick (k)
+}
+
+export enum LinkPredictor {
+  COMMON_NEIGHBORS = 'COMMON_NEIGHBORS',
+  JACCARD = 'JACCARD',
+  ADAMIC_ADAR = 'ADAMIC_ADAR',
+  RESOURCE_ALLOCATION = 'RESOURCE_ALLOCATION',
+  PREFERENTIAL_ATTACHMENT = 'PREFERENTIAL_ATTACHMENT',
+}
+
+// Calendar buckets for temporal metrics, in UTC
+export enum TimeWindow {
+  DAY = 'DAY',
+  WEEK = 'WEEK',
+  MONTH = 'MONTH',
+  YEAR = 'YEAR',
+}
+
+export enum LayoutAlgorithm {
+  FORCE = 'FORCE', // Live D3 force simulation
+  FORCE_ATLAS2 = 'FORCE_ATLAS2',
+  FRUCHTERMAN_REINGOLD = 'FRUCHTERMAN_REINGOLD',
+  CIRCULAR = 'CIRCULAR', // One circle, grouped by community
+  RADIAL = 'RADIAL', // Rings by hop distance from the selected node
+  HIERARCHICAL = 'HIERARCHICAL', // Layers by hop distance from each component's top account
+}
+
+export interface LayoutOptions {
+  algorithm: LayoutAlgorithm;
+  linkDistance: number; // Force link length; Fruchterman–Reingold ideal edge length
+  charge: number; // Force many-body strength, negative repels
+  iterations: number; // ForceAtlas2 and Fruchterman–Reingold
+  scaling: number; // ForceAtlas2 repulsion (kr)
+  gravity: number; // ForceAtlas2 pull toward the center (kg)
+  linLog: boolean; // ForceAtlas2 LinLog mode, which tightens communities
+  nodeSpacing: number; // Circular arc per node; gap between nodes of a hierarchical layer
+  levelSpacing: number; // Radial ring and hierarchical layer distance
+}
+
+export interface AnalysisOptions {
+  seed?: number; // Drives every randomized step so runs are reproducible
+  mode?: GraphMode;
+  pagerank?: PageRankOptions;
+  betweenness?: BetweennessOptions;
+  community?: CommunityOptions;
+}
+
+// Stages of calculateMetrics, in the order they run
+export enum AnalysisStage {
+  DEGREE = 'DEGREE',
+  PAGERANK = 'PAGERANK',
+  COMMUNITIES = 'COMMUNITIES',
+  BETWEENNESS = 'BETWEENNESS',
+  CENTRALITY = 'CENTRALITY',
+  CLUSTERING = 'CLUSTERING',
+  PATHS = 'PATHS',
+}
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  fraction: number; // 0..1 within the stage
 }
 
 export interface AnalysisReport {